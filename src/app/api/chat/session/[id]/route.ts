@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { parseArtifacts } from '@/lib/farm-data/artifacts'
+
+// Parse the JSON sources column of a stored message
+function parseSources(sources: string | null): any[] {
+  if (!sources) return []
+  try {
+    const parsed = JSON.parse(sources)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+// GET /api/chat/session/:id - Load a session with its messages
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const session = await db.chatSession.findUnique({
+      where: { id },
+      include: {
+        messages: {
+          orderBy: { createdAt: 'asc' }
+        }
+      }
+    })
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      id: session.id,
+      title: session.title,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      messages: session.messages.map(message => ({
+        id: message.id,
+        role: message.role,
+        content: message.content,
+        sources: parseSources(message.sources),
+        artifacts: parseArtifacts(message.artifacts),
+        queryType: message.queryType,
+        responseTime: message.responseTime,
+        createdAt: message.createdAt
+      }))
+    })
+  } catch (error: any) {
+    console.error('Session load error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load session' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/chat/session/:id - Rename a session
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object' || typeof body.title !== 'string') {
+      return NextResponse.json(
+        { error: 'Body must be a JSON object with a string title' },
+        { status: 400 }
+      )
+    }
+
+    const title = body.title.trim()
+    if (!title) {
+      return NextResponse.json(
+        { error: 'Title is required' },
+        { status: 400 }
+      )
+    }
+
+    const session = await db.chatSession.update({
+      where: { id },
+      data: { title: title.slice(0, 100) }
+    })
+
+    return NextResponse.json({
+      id: session.id,
+      title: session.title
+    })
+  } catch (error: any) {
+    // P2025: no session with this id
+    if (error?.code === 'P2025') {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+    console.error('Session rename error:', error)
+    return NextResponse.json(
+      { error: 'Failed to rename session' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/chat/session/:id - Delete a session and its messages
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    await db.chatSession.delete({
+      where: { id }
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    // P2025: no session with this id
+    if (error?.code === 'P2025') {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+    console.error('Session delete error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete session' },
+      { status: 500 }
+    )
+  }
+}
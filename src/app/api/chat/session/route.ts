@@ -1,12 +1,61 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db'
+import { DEFAULT_SESSION_TITLE } from '@/lib/chat-pipeline'
+
+// GET /api/chat/session - List chat sessions, optionally filtered with ?q=
+export async function GET(request: NextRequest) {
+  try {
+    const search = request.nextUrl.searchParams.get('q')?.trim()
+
+    const sessions = await db.chatSession.findMany({
+      where: search
+        ? {
+            OR: [
+              { title: { contains: search } },
+              { messages: { some: { content: { contains: search } } } }
+            ]
+          }
+        : undefined,
+      include: {
+        _count: {
+          select: { messages: true }
+        },
+        messages: {
+          orderBy: { createdAt: 'desc' },
+          take: 1
+        }
+      },
+      orderBy: {
+        updatedAt: 'desc'
+      },
+      take: 100
+    })
+
+    const formatted = sessions.map(session => ({
+      id: session.id,
+      title: session.title,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+      messageCount: session._count.messages,
+      lastMessage: session.messages[0]?.content.slice(0, 120) || null
+    }))
+
+    return NextResponse.json({ sessions: formatted })
+  } catch (error: any) {
+    console.error('Session list error:', error)
+    return NextResponse.json(
+      { error: 'Failed to list sessions' },
+      { status: 500 }
+    )
+  }
+}
 
 // POST /api/chat/session - Create a new chat session
 export async function POST() {
   try {
     const session = await db.chatSession.create({
       data: {
-        title: 'New Conversation'
+        title: DEFAULT_SESSION_TITLE
       }
     })
 
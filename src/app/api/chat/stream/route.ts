@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ChatRequest, processQuery, saveUserMessage, saveAssistantResponse } from '@/lib/chat-pipeline'
+import { loadConversationHistory } from '@/lib/conversation-memory'
+
+// Format a single Server-Sent Event
+function formatEvent(event: string, data: any): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+// POST /api/chat/stream - Streaming chat endpoint (Server-Sent Events)
+// Emits `route`, `tool`, `sources`, `artifacts`, `retry` and `token` events while the answer is generated,
+// then `done` once the assistant message has been saved (or `error`).
+export async function POST(request: NextRequest) {
+  const startTime = Date.now()
+
+  let body: ChatRequest
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request body' },
+      { status: 400 }
+    )
+  }
+
+  const { message, sessionId, documents = [], csvFiles = [] } = body
+
+  if (!message || !sessionId) {
+    return NextResponse.json(
+      { error: 'Message and sessionId are required' },
+      { status: 400 }
+    )
+  }
+
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false
+      const send = (event: string, data: any) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(formatEvent(event, data)))
+        } catch {
+          // Client disconnected; keep processing so the answer is still saved
+          closed = true
+        }
+      }
+
+      try {
+        const history = await loadConversationHistory(sessionId)
+        await saveUserMessage(sessionId, message)
+
+        const result = await processQuery(message, documents, csvFiles, history, {
+          onRoute: (queryType, confidence) => send('route', { queryType, confidence }),
+          onSources: sources => send('sources', { sources }),
+          onArtifacts: artifacts => send('artifacts', { artifacts }),
+          onToolCall: step => send('tool', { step }),
+          onRetry: grade => send('retry', { grade }),
+          onToken: delta => send('token', { delta })
+        })
+
+        const assistantMessage = await saveAssistantResponse(
+          sessionId, message, result, documents, csvFiles, startTime
+        )
+
+        send('done', {
+          messageId: assistantMessage.id,
+          response: result.response,
+          sources: result.sources,
+          artifacts: result.artifacts,
+          steps: result.steps,
+          qualityScore: result.evaluation.grade.score,
+          queryType: result.queryType,
+          responseTime: assistantMessage.responseTime
+        })
+      } catch (error: any) {
+        console.error('Chat stream error:', error)
+        send('error', { error: 'Failed to process message', details: error.message })
+      } finally {
+        if (!closed) {
+          closed = true
+          controller.close()
+        }
+      }
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  })
+}
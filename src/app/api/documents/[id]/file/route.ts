@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { readFile, realpath } from 'fs/promises'
+import { existsSync } from 'fs'
+import { join, sep } from 'path'
+
+// GET /api/documents/:id/file - Serve an uploaded document inline (append #page=N to open at a page)
+// Files are looked up by document ID only and must live inside uploads/documents.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const document = await db.document.findUnique({ where: { id: params.id } })
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    // Symlinks are resolved before the containment check
+    const uploadsDir = join(process.cwd(), 'uploads', 'documents')
+    if (!existsSync(uploadsDir) || !existsSync(document.filePath)) {
+      return NextResponse.json({ error: 'Document file not found' }, { status: 404 })
+    }
+    const filePath = await realpath(document.filePath)
+    if (!filePath.startsWith((await realpath(uploadsDir)) + sep)) {
+      return NextResponse.json({ error: 'Document file not found' }, { status: 404 })
+    }
+
+    const content = await readFile(filePath)
+    const isPdf = document.fileType === 'application/pdf'
+    // Quotes and non-ASCII characters cannot go in the plain filename parameter
+    const asciiName = document.fileName.replace(/[^\x20-\x7e]|["\\]/g, '_')
+
+    return new NextResponse(new Uint8Array(content), {
+      headers: {
+        'Content-Type': document.fileType || 'application/octet-stream',
+        'Content-Length': String(content.length),
+        'Content-Disposition': `inline; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(document.fileName)}`,
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, max-age=3600',
+        // Other uploaded formats must never run scripts on this origin; browsers refuse to show sandboxed PDFs
+        ...(isPdf ? {} : { 'Content-Security-Policy': 'sandbox' })
+      }
+    })
+  } catch (error: any) {
+    console.error('Document file error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load document file' },
+      { status: 500 }
+    )
+  }
+}
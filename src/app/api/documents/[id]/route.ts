@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db'
+import { removeDocumentLexical } from '@/lib/lexical-index'
 
 // DELETE /api/documents/:id - Delete a document
 export async function DELETE(
@@ -7,10 +8,17 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
+    await removeDocumentLexical(params.id)
+
     await db.documentChunk.deleteMany({
       where: { documentId: params.id }
     })
 
+    // A job that is already running finishes or fails on its own
+    await db.ingestionJob.deleteMany({
+      where: { targetId: params.id, status: { not: 'processing' } }
+    })
+
     await db.document.delete({
       where: { id: params.id }
     })
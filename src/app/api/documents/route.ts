@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db'
+import { removeDocumentLexical } from '@/lib/lexical-index'
 
 // GET /api/documents - List all documents
 export async function GET() {
@@ -22,7 +23,10 @@ export async function GET() {
       fileSize: doc.fileSize,
       category: doc.category,
       uploadedAt: doc.uploadedAt,
-      chunkCount: doc._count.chunks
+      chunkCount: doc._count.chunks,
+      ocrPages: doc.ocrPages,
+      ocrConfidence: doc.ocrConfidence,
+      extractionWarning: doc.extractionWarning
     }))
 
     return NextResponse.json({ documents: formatted })
@@ -41,6 +45,8 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
+    await removeDocumentLexical(params.id)
+
     await db.documentChunk.deleteMany({
       where: { documentId: params.id }
     })
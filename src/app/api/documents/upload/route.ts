@@ -3,12 +3,12 @@ import { db } from '@/lib/db'
 import { writeFile, mkdir } from 'fs/promises'
 import { join } from 'path'
 import { existsSync } from 'fs'
-import { exec } from 'child_process'
-import { promisify } from 'util'
+import { enqueueIngestionJob } from '@/lib/ingestion-queue'
+import { storedFileName } from '@/lib/uploads'
+import { detectDocumentFormat, SUPPORTED_FORMATS_LABEL } from '@/lib/documents/formats'
 
-const execAsync = promisify(exec)
-
-// POST /api/documents/upload - Upload PDF documents
+// POST /api/documents/upload - Upload PDF, Word, PowerPoint, HTML, Markdown or text documents
+// Files are stored and queued for text extraction and indexing; poll GET /api/jobs for progress
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData()
@@ -29,14 +29,15 @@ export async function POST(request: NextRequest) {
     const results = []
 
     for (const file of files) {
-      if (file.type !== 'application/pdf') {
-        results.push({ fileName: file.name, error: 'Only PDF files are allowed' })
+      const detected = detectDocumentFormat(file.name, file.type)
+      if (!detected) {
+        results.push({ fileName: file.name, error: `Unsupported file type; upload ${SUPPORTED_FORMATS_LABEL} files` })
         continue
       }
 
       const bytes = await file.arrayBuffer()
       const buffer = Buffer.from(bytes)
-      const fileName = `${Date.now()}-${file.name}`
+      const fileName = storedFileName(file.name)
       const filePath = join(uploadsDir, fileName)
 
       await writeFile(filePath, buffer)
@@ -46,19 +47,18 @@ export async function POST(request: NextRequest) {
         data: {
           fileName: file.name,
           filePath,
-          fileType: file.type,
+          fileType: detected.mimeType,
           fileSize: file.size,
           category: 'General'
         }
       })
 
-      // Extract text and create chunks (simplified version)
-      const chunks = await extractAndChunkPDF(filePath, document.id)
+      const job = await enqueueIngestionJob('document', document.id, document.fileName)
 
       results.push({
         id: document.id,
         fileName: document.fileName,
-        chunkCount: chunks
+        jobId: job.id
       })
     }
 
@@ -71,89 +71,3 @@ export async function POST(request: NextRequest) {
     )
   }
 }
-
-// Helper function to extract text and create chunks
-async function extractAndChunkPDF(filePath: string, documentId: string): Promise<number> {
-  try {
-    // Simple PDF text extraction using pypdf
-    // Use Python to extract text from PDF
-    const pythonScript = `
-import sys
-from pypdf import PdfReader
-
-pdf_path = sys.argv[1]
-reader = PdfReader(pdf_path)
-text = ""
-for page in reader.pages:
-    text += page.extract_text() + "\\n"
-
-print(text)
-`
-
-    const { stdout } = await execAsync(`python3 -c "${pythonScript.replace(/"/g, '\\"')}" "${filePath}"`)
-    const text = stdout.trim()
-
-    if (!text || text.length < 100) {
-      console.log('No significant text extracted from PDF')
-      return 0
-    }
-
-    // Chunk the text
-    const chunks = createTextChunks(text, 1000, 200)
-
-    // Save chunks to database
-    for (let i = 0; i < chunks.length; i++) {
-      await db.documentChunk.create({
-        data: {
-          documentId,
-          chunkIndex: i,
-          content: chunks[i],
-          metadata: JSON.stringify({
-            chunkSize: chunks[i].length,
-            totalChunks: chunks.length
-          })
-        }
-      })
-    }
-
-    // Update document processed timestamp
-    await db.document.update({
-      where: { id: documentId },
-      data: { processedAt: new Date() }
-    })
-
-    return chunks.length
-  } catch (error: any) {
-    console.error('PDF extraction error:', error)
-    return 0
-  }
-}
-
-// Helper function to create text chunks with overlap
-function createTextChunks(text: string, chunkSize: number, overlap: number): string[] {
-  const chunks: string[] = []
-  let start = 0
-
-  while (start < text.length) {
-    const end = Math.min(start + chunkSize, text.length)
-    let chunk = text.slice(start, end)
-
-    // Try to break at sentence boundaries
-    if (end < text.length) {
-      const lastPeriod = chunk.lastIndexOf('.')
-      const lastNewline = chunk.lastIndexOf('\n')
-      const breakPoint = Math.max(lastPeriod, lastNewline)
-
-      if (breakPoint > chunkSize * 0.5) {
-        chunk = chunk.slice(0, breakPoint + 1)
-      }
-    }
-
-    chunks.push(chunk.trim())
-    start += chunk.length - overlap
-
-    if (start >= text.length) break
-  }
-
-  return chunks.filter(chunk => chunk.length > 50)
-}
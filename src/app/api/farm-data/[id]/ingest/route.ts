@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { enqueueIngestionJob } from '@/lib/ingestion-queue'
+
+// POST /api/farm-data/:id/ingest - Queue (re-)ingestion of a farm data file into the herd models
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const farmDataFile = await db.farmDataFile.findUnique({ where: { id } })
+    if (!farmDataFile) {
+      return NextResponse.json(
+        { error: 'Farm data file not found' },
+        { status: 404 }
+      )
+    }
+
+    // The column mapping is saved once the upload job has parsed the file; until then the job checks it
+    const columnMapping = farmDataFile.columnMapping ? JSON.parse(farmDataFile.columnMapping) : null
+    if (columnMapping && !columnMapping.mapping?.cow_id) {
+      return NextResponse.json(
+        { error: 'No cow ID column was recognized in this file' },
+        { status: 400 }
+      )
+    }
+
+    const job = await enqueueIngestionJob('farm_data', farmDataFile.id, farmDataFile.fileName)
+
+    return NextResponse.json({ success: true, jobId: job.id }, { status: 202 })
+  } catch (error: any) {
+    console.error('Ingest error:', error)
+    return NextResponse.json(
+      { error: 'Failed to ingest farm data file', details: error.message },
+      { status: 500 }
+    )
+  }
+}
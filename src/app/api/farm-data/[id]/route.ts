@@ -7,6 +7,11 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
+    // A job that is already running finishes or fails on its own
+    await db.ingestionJob.deleteMany({
+      where: { targetId: params.id, status: { not: 'processing' } }
+    })
+
     await db.farmDataFile.delete({
       where: { id: params.id }
     })
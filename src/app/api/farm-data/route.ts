@@ -16,6 +16,12 @@ export async function GET() {
       fileType: file.fileType,
       rowCount: file.rowCount,
       columns: JSON.parse(file.columns || '[]'),
+      schema: JSON.parse(file.columnSchema || '[]'),
+      sheets: JSON.parse(file.sheets || '[]'),
+      sourceSystem: file.sourceSystem,
+      columnMapping: JSON.parse(file.columnMapping || '{}'),
+      ingestedAt: file.ingestedAt,
+      ingestSummary: file.ingestSummary ? JSON.parse(file.ingestSummary) : null,
       uploadedAt: file.uploadedAt
     }))
 
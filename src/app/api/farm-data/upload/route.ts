@@ -3,16 +3,23 @@ import { db } from '@/lib/db'
 import { writeFile, mkdir } from 'fs/promises'
 import { join } from 'path'
 import { existsSync } from 'fs'
-import { exec } from 'child_process'
-import { promisify } from 'util'
-
-const execAsync = promisify(exec)
+import { HERD_SOURCE_ADAPTERS } from '@/lib/farm-data/adapters'
+import { enqueueIngestionJob } from '@/lib/ingestion-queue'
+import { storedFileName } from '@/lib/uploads'
 
 // POST /api/farm-data/upload - Upload CSV/Excel files
+// Files are stored and queued; the job parses them, maps columns from known herd software
+// exports to the canonical herd schema and ingests files with a cow ID column into the
+// herd models (poll GET /api/jobs)
 export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData()
     const files = formData.getAll('files') as File[]
+    // Optional override when the source system cannot be detected from the columns
+    const requestedSource = formData.get('sourceSystem') as string | null
+    const sourceOverride = HERD_SOURCE_ADAPTERS.some(adapter => adapter.id === requestedSource)
+      ? requestedSource
+      : null
 
     if (!files || files.length === 0) {
       return NextResponse.json(
@@ -26,7 +33,7 @@ export async function POST(request: NextRequest) {
       await mkdir(uploadsDir, { recursive: true })
     }
 
-    const results = []
+    const results: any[] = []
 
     for (const file of files) {
       const fileType = file.type
@@ -34,6 +41,8 @@ export async function POST(request: NextRequest) {
                           fileType === 'application/vnd.ms-excel' ||
                           fileType === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' ||
                           file.name.endsWith('.csv') ||
+                          file.name.endsWith('.tsv') ||
+                          file.name.endsWith('.txt') ||
                           file.name.endsWith('.xlsx') ||
                           file.name.endsWith('.xls')
 
@@ -44,30 +53,27 @@ export async function POST(request: NextRequest) {
 
       const bytes = await file.arrayBuffer()
       const buffer = Buffer.from(bytes)
-      const fileName = `${Date.now()}-${file.name}`
+      const fileName = storedFileName(file.name)
       const filePath = join(uploadsDir, fileName)
 
       await writeFile(filePath, buffer)
 
-      // Analyze the file
-      const fileData = await analyzeCSVFile(filePath)
-
-      // Store file in database
+      // Parsing, schema inference and herd ingestion run in the background job
       const farmDataFile = await db.farmDataFile.create({
         data: {
           fileName: file.name,
           filePath,
-          fileType: file.name.endsWith('.csv') ? 'csv' : 'excel',
-          rowCount: fileData.rowCount,
-          columns: JSON.stringify(fileData.columns)
+          fileType: /\.xlsx?$/i.test(file.name) ? 'excel' : 'csv',
+          sourceSystem: sourceOverride
         }
       })
 
+      const job = await enqueueIngestionJob('farm_data', farmDataFile.id, farmDataFile.fileName)
+
       results.push({
         id: farmDataFile.id,
         fileName: farmDataFile.fileName,
-        rowCount: farmDataFile.rowCount,
-        columns: fileData.columns
+        jobId: job.id
       })
     }
 
@@ -80,44 +86,3 @@ export async function POST(request: NextRequest) {
     )
   }
 }
-
-// Helper function to analyze CSV file
-async function analyzeCSVFile(filePath: string): Promise<{
-  rowCount: number
-  columns: string[]
-}> {
-  try {
-    // Use Python to analyze CSV
-    const pythonScript = `
-import sys
-import pandas as pd
-
-file_path = sys.argv[1]
-try:
-    df = pd.read_csv(file_path)
-    print(f"{len(df)}")
-    print(f"{list(df.columns)}")
-except Exception as e:
-    print(f"0")
-    print(f"[]")
-`
-
-    const { stdout } = await execAsync(`python3 -c "${pythonScript.replace(/"/g, '\\"')}" "${filePath}"`)
-    const lines = stdout.trim().split('\n')
-
-    const rowCount = parseInt(lines[0]) || 0
-    const columnsStr = lines[1] || '[]'
-
-    let columns: string[] = []
-    try {
-      columns = JSON.parse(columnsStr.replace(/'/g, '"'))
-    } catch {
-      columns = []
-    }
-
-    return { rowCount, columns }
-  } catch (error: any) {
-    console.error('CSV analysis error:', error)
-    return { rowCount: 0, columns: [] }
-  }
-}
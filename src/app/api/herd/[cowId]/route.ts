@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+
+// GET /api/herd/:cowId - Animal with its lactations, test days and events
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ cowId: string }> }
+) {
+  try {
+    const { cowId } = await params
+
+    const animal = await db.animal.findUnique({
+      where: { cowId: decodeURIComponent(cowId) },
+      include: {
+        lactations: { orderBy: { number: 'asc' } },
+        testDays: { orderBy: { testDate: 'asc' } },
+        events: { orderBy: { eventDate: 'asc' } }
+      }
+    })
+
+    if (!animal) {
+      return NextResponse.json(
+        { error: 'Animal not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ animal })
+  } catch (error: any) {
+    console.error('Animal load error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load animal' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { CALENDAR_EVENT_LABELS, CalendarEventType, getHerdCalendar } from '@/lib/herd/calendar'
+
+// GET /api/herd/calendar - Projected VWP end, rebreeding, pregnancy check, dry-off and calving dates
+// Query params: from, to (ISO dates, default the next 30 days), type (comma-separated), cowId,
+// alertDays (days ahead that raise a due alert, default 7)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const from = searchParams.get('from') ? new Date(searchParams.get('from') as string) : new Date()
+    const to = searchParams.get('to')
+      ? new Date(searchParams.get('to') as string)
+      : new Date(from.getTime() + 30 * 24 * 60 * 60 * 1000)
+
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from > to) {
+      return NextResponse.json(
+        { error: 'from and to must be valid dates with from not after to' },
+        { status: 400 }
+      )
+    }
+
+    const alertDays = searchParams.get('alertDays') ? Number(searchParams.get('alertDays')) : undefined
+    if (alertDays !== undefined && (!Number.isInteger(alertDays) || alertDays < 0)) {
+      return NextResponse.json({ error: 'alertDays must be a non-negative whole number' }, { status: 400 })
+    }
+
+    const typeParam = searchParams.get('type')
+    const types = typeParam ? typeParam.split(',').map(type => type.trim()) : undefined
+    const invalid = types?.filter(type => !(type in CALENDAR_EVENT_LABELS))
+    if (invalid && invalid.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown event type: ${invalid.join(', ')}`, details: `Valid types: ${Object.keys(CALENDAR_EVENT_LABELS).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const calendar = await getHerdCalendar({
+      from,
+      to,
+      types: types as CalendarEventType[] | undefined,
+      cowId: searchParams.get('cowId') || undefined,
+      alertDays
+    })
+
+    return NextResponse.json(calendar)
+  } catch (error: any) {
+    console.error('Herd calendar error:', error)
+    return NextResponse.json(
+      { error: 'Failed to build herd calendar', details: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { analyzeLactationCurves, CurveModel, formatCurveReport, ParityGroup } from '@/lib/herd/lactation-curves'
+
+const PARITY_GROUPS: ParityGroup[] = ['1', '2', '3+']
+
+// GET /api/herd/lactation-curves - Fitted lactation curves per parity group and cow
+// Query params: model ('wood' | 'wilmink'), cowId, parity ('1' | '2' | '3+')
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const model = searchParams.get('model') || 'wood'
+    const parity = searchParams.get('parity')
+
+    if (model !== 'wood' && model !== 'wilmink') {
+      return NextResponse.json(
+        { error: 'model must be "wood" or "wilmink"' },
+        { status: 400 }
+      )
+    }
+    if (parity && !PARITY_GROUPS.includes(parity as ParityGroup)) {
+      return NextResponse.json(
+        { error: 'parity must be "1", "2" or "3+"' },
+        { status: 400 }
+      )
+    }
+
+    const report = await analyzeLactationCurves({
+      model: model as CurveModel,
+      cowId: searchParams.get('cowId') || undefined,
+      parity: (parity as ParityGroup) || undefined
+    })
+
+    return NextResponse.json(formatCurveReport(report))
+  } catch (error: any) {
+    console.error('Lactation curve error:', error)
+    return NextResponse.json(
+      { error: 'Failed to fit lactation curves', details: error.message },
+      { status: 500 }
+    )
+  }
+}
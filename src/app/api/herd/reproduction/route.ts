@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { analyzeReproduction } from '@/lib/herd/reproduction'
+
+// GET /api/herd/reproduction - Pregnancy, heat detection and conception rates, days open, calving interval
+// Query params: from, to (ISO dates, default the last 12 months), vwp (voluntary waiting period in days)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const to = searchParams.get('to') ? new Date(searchParams.get('to') as string) : new Date()
+    const from = searchParams.get('from')
+      ? new Date(searchParams.get('from') as string)
+      : new Date(to.getFullYear() - 1, to.getMonth(), to.getDate())
+    const vwpParam = searchParams.get('vwp')
+    const voluntaryWaitingPeriod = vwpParam ? Number(vwpParam) : undefined
+
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from >= to) {
+      return NextResponse.json(
+        { error: 'from and to must be valid dates with from before to' },
+        { status: 400 }
+      )
+    }
+    if (voluntaryWaitingPeriod !== undefined && (!Number.isInteger(voluntaryWaitingPeriod) || voluntaryWaitingPeriod < 0)) {
+      return NextResponse.json(
+        { error: 'vwp must be a non-negative whole number of days' },
+        { status: 400 }
+      )
+    }
+
+    const report = await analyzeReproduction({ from, to, voluntaryWaitingPeriod })
+
+    return NextResponse.json(report)
+  } catch (error: any) {
+    console.error('Reproduction analysis error:', error)
+    return NextResponse.json(
+      { error: 'Failed to analyze reproduction', details: error.message },
+      { status: 500 }
+    )
+  }
+}
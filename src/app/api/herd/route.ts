@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+
+// GET /api/herd - Herd summary and animal list with each animal's latest test day
+// Query params: status ('active', 'culled'), q (cow ID search)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+    const search = searchParams.get('q')?.trim()
+
+    const animals = await db.animal.findMany({
+      where: {
+        ...(status ? { status } : {}),
+        ...(search ? { cowId: { contains: search } } : {})
+      },
+      include: {
+        lactations: { orderBy: { number: 'desc' }, take: 1 },
+        testDays: { orderBy: { testDate: 'desc' }, take: 1 }
+      },
+      orderBy: { cowId: 'asc' }
+    })
+
+    const [testDayCount, eventCount] = await Promise.all([
+      db.testDay.count(),
+      db.herdEvent.count()
+    ])
+
+    return NextResponse.json({
+      summary: {
+        animals: animals.length,
+        active: animals.filter(animal => animal.status === 'active').length,
+        testDays: testDayCount,
+        events: eventCount
+      },
+      animals: animals.map(animal => ({
+        id: animal.id,
+        cowId: animal.cowId,
+        status: animal.status,
+        breed: animal.breed,
+        birthDate: animal.birthDate,
+        lactation: animal.lactations[0]?.number ?? null,
+        calvingDate: animal.lactations[0]?.calvingDate ?? null,
+        latestTestDay: animal.testDays[0] || null
+      }))
+    })
+  } catch (error: any) {
+    console.error('Herd list error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load herd' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { analyzeUdderHealth } from '@/lib/herd/udder-health'
+
+// GET /api/herd/udder-health - SCC status per cow and herd SCC trend
+// Query params: threshold (x1000 cells/mL, default 200), cowId
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const thresholdParam = searchParams.get('threshold')
+    const threshold = thresholdParam ? Number(thresholdParam) : undefined
+
+    if (threshold !== undefined && (!Number.isFinite(threshold) || threshold <= 0)) {
+      return NextResponse.json(
+        { error: 'threshold must be a positive number (x1000 cells/mL)' },
+        { status: 400 }
+      )
+    }
+
+    const report = await analyzeUdderHealth({
+      threshold,
+      cowId: searchParams.get('cowId') || undefined
+    })
+
+    return NextResponse.json(report)
+  } catch (error: any) {
+    console.error('Udder health error:', error)
+    return NextResponse.json(
+      { error: 'Failed to analyze udder health', details: error.message },
+      { status: 500 }
+    )
+  }
+}
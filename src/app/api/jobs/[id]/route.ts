@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { formatIngestionJob } from '@/lib/ingestion-queue'
+
+// GET /api/jobs/:id - Status and progress of one ingestion job
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const job = await db.ingestionJob.findUnique({ where: { id } })
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ job: formatIngestionJob(job) })
+  } catch (error: any) {
+    console.error('Job status error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load ingestion job' },
+      { status: 500 }
+    )
+  }
+}
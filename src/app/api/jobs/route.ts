@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { formatIngestionJob, RECENT_JOB_MS, startIngestionWorker } from '@/lib/ingestion-queue'
+
+// GET /api/jobs?ids=a,b - Ingestion job status for the given jobs, or by default
+// every queued or processing job plus jobs finished in the last 10 minutes
+export async function GET(request: NextRequest) {
+  try {
+    // Resume queued work if the worker is not running in this process
+    startIngestionWorker()
+
+    const ids = (request.nextUrl.searchParams.get('ids') || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(Boolean)
+
+    const jobs = await db.ingestionJob.findMany({
+      where: ids.length > 0
+        ? { id: { in: ids } }
+        : {
+            OR: [
+              { status: { in: ['queued', 'processing'] } },
+              { finishedAt: { gte: new Date(Date.now() - RECENT_JOB_MS) } }
+            ]
+          },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return NextResponse.json({ jobs: jobs.map(formatIngestionJob) })
+  } catch (error: any) {
+    console.error('Job list error:', error)
+    return NextResponse.json(
+      { error: 'Failed to list ingestion jobs' },
+      { status: 500 }
+    )
+  }
+}
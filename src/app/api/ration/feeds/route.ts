@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server'
+import { DEFAULT_RATION_FEEDS, FEED_LIBRARY } from '@/lib/herd/feed-library'
+
+// GET /api/ration/feeds - Feed library used for ration formulation
+export async function GET() {
+  return NextResponse.json({ feeds: FEED_LIBRARY, defaultFeeds: DEFAULT_RATION_FEEDS })
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { findFeed } from '@/lib/herd/feed-library'
+import { balanceRation, DEFAULT_GROUP, evaluateRation, RationGroup, RationItem } from '@/lib/herd/ration'
+
+// POST /api/ration - Evaluate a ration or balance one for a production group
+// Body: { mode: 'evaluate' | 'balance', group?: { milk, bodyWeight, fatPct, proteinPct, dim },
+//         items?: [{ feedId, kgAsFed }] (evaluate), feedIds?: string[] (balance), milkPrice? (USD/kg) }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 })
+    }
+    const mode = body.mode || (Array.isArray(body.items) ? 'evaluate' : 'balance')
+
+    if (mode !== 'evaluate' && mode !== 'balance') {
+      return NextResponse.json({ error: 'mode must be evaluate or balance' }, { status: 400 })
+    }
+
+    const group: RationGroup = { ...DEFAULT_GROUP, ...(body.group || {}) }
+    const invalidField = (Object.keys(DEFAULT_GROUP) as (keyof RationGroup)[])
+      .find(field => typeof group[field] !== 'number' || !Number.isFinite(group[field]) || group[field] <= 0)
+    if (invalidField) {
+      return NextResponse.json({ error: `group.${invalidField} must be a positive number` }, { status: 400 })
+    }
+
+    const milkPrice = body.milkPrice !== undefined ? Number(body.milkPrice) : undefined
+    if (milkPrice !== undefined && (!Number.isFinite(milkPrice) || milkPrice < 0)) {
+      return NextResponse.json({ error: 'milkPrice must be a non-negative number (USD/kg)' }, { status: 400 })
+    }
+
+    let items: RationItem[] = []
+    let feedIds: string[] = []
+    if (mode === 'evaluate') {
+      const validItems = Array.isArray(body.items) && body.items.length > 0 && body.items.every((item: any) =>
+        item !== null && typeof item === 'object' && typeof item.feedId === 'string' &&
+        typeof item.kgAsFed === 'number' && Number.isFinite(item.kgAsFed) && item.kgAsFed > 0
+      )
+      if (!validItems) {
+        return NextResponse.json(
+          { error: 'items must be a list of { feedId, kgAsFed } with a positive kgAsFed' },
+          { status: 400 }
+        )
+      }
+      items = body.items
+      feedIds = items.map(item => item.feedId)
+    } else if (body.feedIds !== undefined) {
+      if (!Array.isArray(body.feedIds) || body.feedIds.some((feedId: unknown) => typeof feedId !== 'string')) {
+        return NextResponse.json({ error: 'feedIds must be a list of feed IDs' }, { status: 400 })
+      }
+      feedIds = body.feedIds
+    }
+
+    const unknown = feedIds.filter(feedId => !findFeed(feedId))
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown feed: ${unknown.join(', ')}`, details: 'See GET /api/ration/feeds for the feed library' },
+        { status: 400 }
+      )
+    }
+
+    if (mode === 'evaluate') {
+      return NextResponse.json(evaluateRation(group, items, { milkPrice }))
+    }
+
+    return NextResponse.json(balanceRation(group, { feedIds, milkPrice }))
+  } catch (error: any) {
+    console.error('Ration calculation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to calculate ration', details: error.message },
+      { status: 500 }
+    )
+  }
+}
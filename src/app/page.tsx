@@ -8,6 +8,8 @@ import { ScrollArea } from '@/components/ui/scroll-area'
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Separator } from '@/components/ui/separator'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Progress } from '@/components/ui/progress'
 import {
   FileText,
   Upload,
@@ -20,17 +22,33 @@ import {
   Trash2,
   Download,
   CheckCircle2,
-  AlertCircle
+  AlertCircle,
+  AlertTriangle,
+  MessageSquare,
+  Pencil,
+  Plus,
+  Search,
+  Check,
+  X
 } from 'lucide-react'
 import { toast } from 'sonner'
 import ReactMarkdown from 'react-markdown'
+import { AnalysisArtifacts } from '@/components/analysis-artifacts'
+import { CitedAnswer, SourceBadges } from '@/components/cited-answer'
+import { DocumentViewer } from '@/components/document-viewer'
+import { HerdCalendar } from '@/components/herd-calendar'
+import type { AnalysisArtifact } from '@/lib/farm-data/artifacts'
+import { DOCUMENT_ACCEPT } from '@/lib/documents/formats'
 
 interface Message {
   id: string
   role: 'user' | 'assistant' | 'system'
   content: string
   sources?: any[]
+  artifacts?: AnalysisArtifact[]
   queryType?: string
+  // Agent tool that most recently finished while streaming
+  activeTool?: string
   responseTime?: number
   timestamp: Date
 }
@@ -43,6 +61,18 @@ interface Document {
   category?: string
   uploadedAt: Date
   chunkCount: number
+  ocrPages: number
+  ocrConfidence: number | null
+  extractionWarning: string | null
+}
+
+interface ChatSessionSummary {
+  id: string
+  title: string | null
+  createdAt: Date
+  updatedAt: Date
+  messageCount: number
+  lastMessage: string | null
 }
 
 interface CSVFile {
@@ -54,14 +84,73 @@ interface CSVFile {
   uploadedAt: Date
 }
 
+interface IngestionJob {
+  id: string
+  kind: 'document' | 'farm_data' | 'embeddings'
+  targetId: string
+  fileName: string
+  status: 'queued' | 'processing' | 'done' | 'failed'
+  stage: string | null
+  progress: number
+  error: string | null
+  result: any
+}
+
+const isJobActive = (job?: IngestionJob) => job?.status === 'queued' || job?.status === 'processing'
+
+// Read Server-Sent Events from the chat stream, calling onEvent for each one
+async function readChatStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: string, data: any) => void
+) {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const blocks = buffer.split('\n\n')
+    buffer = blocks.pop() || ''
+
+    for (const block of blocks) {
+      let event = 'message'
+      let data = ''
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim()
+        else if (line.startsWith('data:')) data += line.slice(5).trim()
+      }
+      if (data) onEvent(event, JSON.parse(data))
+    }
+  }
+}
+
+const SESSION_STORAGE_KEY = 'smart-dairy-session-id'
+// How often upload progress is polled while ingestion jobs are running
+const JOB_POLL_MS = 2000
+
 export default function SmartDairyAI() {
   const [messages, setMessages] = useState<Message[]>([])
   const [input, setInput] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const [documents, setDocuments] = useState<Document[]>([])
   const [csvFiles, setCsvFiles] = useState<CSVFile[]>([])
+  // Data files left out of analysis; new uploads are included by default
+  const [excludedCsvIds, setExcludedCsvIds] = useState<string[]>([])
   const [uploading, setUploading] = useState(false)
+  // Background ingestion jobs, newest first
+  const [jobs, setJobs] = useState<IngestionJob[]>([])
+  const jobStatusRef = useRef(new Map<string, IngestionJob['status']>())
   const [sessionId, setSessionId] = useState<string>('')
+  const [streamingId, setStreamingId] = useState<string | null>(null)
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([])
+  const [sessionSearch, setSessionSearch] = useState('')
+  const [editingSessionId, setEditingSessionId] = useState<string | null>(null)
+  const [editingTitle, setEditingTitle] = useState('')
+  // Cited document source shown in the viewer panel
+  const [viewerSource, setViewerSource] = useState<any | null>(null)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
   const csvInputRef = useRef<HTMLInputElement>(null)
@@ -69,9 +158,27 @@ export default function SmartDairyAI() {
   useEffect(() => {
     loadDocuments()
     loadCSVFiles()
-    createNewSession()
+    loadJobs()
+    restoreSession()
   }, [])
 
+  // Poll ingestion jobs while any are queued or running
+  const hasActiveJobs = jobs.some(job => isJobActive(job))
+  useEffect(() => {
+    if (!hasActiveJobs) return
+    const timer = setInterval(loadJobs, JOB_POLL_MS)
+    return () => clearInterval(timer)
+  }, [hasActiveJobs])
+
+  useEffect(() => {
+    if (sessionId) localStorage.setItem(SESSION_STORAGE_KEY, sessionId)
+  }, [sessionId])
+
+  useEffect(() => {
+    const timeout = setTimeout(() => loadSessions(sessionSearch), 300)
+    return () => clearTimeout(timeout)
+  }, [sessionSearch])
+
   useEffect(() => {
     scrollToBottom()
   }, [messages])
@@ -87,11 +194,100 @@ export default function SmartDairyAI() {
       })
       const data = await response.json()
       setSessionId(data.sessionId)
+      setMessages([])
+      await loadSessions(sessionSearch)
     } catch (error) {
       console.error('Failed to create session:', error)
     }
   }
 
+  // Resume the last open conversation, or start a new one
+  const restoreSession = async () => {
+    const savedId = localStorage.getItem(SESSION_STORAGE_KEY)
+    if (savedId && await openSession(savedId)) return
+    await createNewSession()
+  }
+
+  const loadSessions = async (search: string = '') => {
+    try {
+      const query = search.trim() ? `?q=${encodeURIComponent(search.trim())}` : ''
+      const response = await fetch(`/api/chat/session${query}`)
+      const data = await response.json()
+      setSessions(data.sessions || [])
+    } catch (error) {
+      console.error('Failed to load sessions:', error)
+    }
+  }
+
+  const openSession = async (id: string): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/chat/session/${id}`)
+      if (!response.ok) return false
+
+      const data = await response.json()
+      setSessionId(data.id)
+      setMessages(data.messages.map((message: any) => ({
+        id: message.id,
+        role: message.role,
+        content: message.content,
+        sources: message.sources,
+        artifacts: message.artifacts,
+        queryType: message.queryType || undefined,
+        responseTime: message.responseTime || undefined,
+        timestamp: new Date(message.createdAt)
+      })))
+      return true
+    } catch (error) {
+      console.error('Failed to load session:', error)
+      return false
+    }
+  }
+
+  const handleRenameSession = async (id: string) => {
+    const title = editingTitle.trim()
+    setEditingSessionId(null)
+    if (!title) return
+
+    try {
+      const response = await fetch(`/api/chat/session/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title })
+      })
+
+      if (response.ok) {
+        await loadSessions(sessionSearch)
+      } else {
+        toast.error('Failed to rename conversation')
+      }
+    } catch (error) {
+      console.error('Rename error:', error)
+      toast.error('Failed to rename conversation')
+    }
+  }
+
+  const handleDeleteSession = async (id: string) => {
+    try {
+      const response = await fetch(`/api/chat/session/${id}`, {
+        method: 'DELETE'
+      })
+
+      if (response.ok) {
+        toast.success('Conversation deleted')
+        if (id === sessionId) {
+          await createNewSession()
+        } else {
+          await loadSessions(sessionSearch)
+        }
+      } else {
+        toast.error('Failed to delete conversation')
+      }
+    } catch (error) {
+      console.error('Delete error:', error)
+      toast.error('Failed to delete conversation')
+    }
+  }
+
   const loadDocuments = async () => {
     try {
       const response = await fetch('/api/documents')
@@ -112,6 +308,33 @@ export default function SmartDairyAI() {
     }
   }
 
+  const loadJobs = async () => {
+    try {
+      const response = await fetch('/api/jobs')
+      const data = await response.json()
+      const latest: IngestionJob[] = data.jobs || []
+
+      // Jobs seen running on the previous poll that have since finished
+      const finished = latest.filter(job => {
+        const previous = jobStatusRef.current.get(job.id)
+        return (previous === 'queued' || previous === 'processing') && !isJobActive(job)
+      })
+      jobStatusRef.current = new Map(latest.map(job => [job.id, job.status]))
+      setJobs(latest)
+
+      for (const job of finished.filter(job => job.status === 'failed')) {
+        toast.error(`Failed to process ${job.fileName}: ${job.error}`)
+      }
+      for (const job of finished.filter(job => job.status === 'done' && job.result?.warning)) {
+        toast.warning(`${job.fileName}: ${job.result.warning}`)
+      }
+      if (finished.some(job => job.kind === 'document' || job.kind === 'embeddings')) await loadDocuments()
+      if (finished.some(job => job.kind === 'farm_data')) await loadCSVFiles()
+    } catch (error) {
+      console.error('Failed to load ingestion jobs:', error)
+    }
+  }
+
   const handleSendMessage = async () => {
     if (!input.trim() || isLoading) return
 
@@ -127,50 +350,90 @@ export default function SmartDairyAI() {
     setIsLoading(true)
 
     const startTime = Date.now()
+    const assistantId = (Date.now() + 1).toString()
 
     try {
-      const response = await fetch('/api/chat', {
+      const response = await fetch('/api/chat/stream', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           message: userMessage.content,
           sessionId,
           documents: documents.map(d => d.id),
-          csvFiles: csvFiles.map(c => c.id)
+          csvFiles: csvFiles.filter(c => !excludedCsvIds.includes(c.id)).map(c => c.id)
         })
       })
 
-      const data = await response.json()
-      const responseTime = (Date.now() - startTime) / 1000
+      if (!response.ok || !response.body) {
+        throw new Error(`Request failed with status ${response.status}`)
+      }
 
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
+      // Placeholder that fills in as stream events arrive
+      setMessages(prev => [...prev, {
+        id: assistantId,
         role: 'assistant',
-        content: data.response,
-        sources: data.sources,
-        queryType: data.queryType,
-        responseTime,
+        content: '',
         timestamp: new Date()
+      }])
+      setStreamingId(assistantId)
+
+      const updateAssistant = (update: (message: Message) => Message) => {
+        setMessages(prev => prev.map(m => (m.id === assistantId ? update(m) : m)))
       }
 
-      setMessages(prev => [...prev, assistantMessage])
+      await readChatStream(response.body, (event, data) => {
+        switch (event) {
+          case 'route':
+            updateAssistant(m => ({ ...m, queryType: data.queryType }))
+            break
+          case 'tool':
+            updateAssistant(m => ({ ...m, activeTool: data.step.tool }))
+            break
+          case 'retry':
+            // The first answer was graded weak; a new one streams in after more searching
+            updateAssistant(m => ({ ...m, content: '', activeTool: undefined }))
+            break
+          case 'sources':
+            updateAssistant(m => ({ ...m, sources: data.sources }))
+            break
+          case 'artifacts':
+            updateAssistant(m => ({ ...m, artifacts: data.artifacts }))
+            break
+          case 'token':
+            updateAssistant(m => ({ ...m, content: m.content + data.delta }))
+            break
+          case 'done':
+            updateAssistant(m => ({
+              ...m,
+              content: data.response,
+              sources: data.sources,
+              artifacts: data.artifacts,
+              queryType: data.queryType,
+              responseTime: (Date.now() - startTime) / 1000
+            }))
+            break
+          case 'error':
+            throw new Error(data.details || data.error)
+        }
+      })
 
-      // Reload documents and CSV files in case new data was added
-      await Promise.all([loadDocuments(), loadCSVFiles()])
+      // Reload documents, CSV files and session titles in case they changed
+      await Promise.all([loadDocuments(), loadCSVFiles(), loadSessions(sessionSearch)])
     } catch (error: any) {
       console.error('Failed to send message:', error)
       toast.error('Failed to send message. Please try again.')
 
       const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: (Date.now() + 2).toString(),
         role: 'assistant',
         content: 'Sorry, I encountered an error processing your request. Please try again.',
         timestamp: new Date()
       }
 
-      setMessages(prev => [...prev, errorMessage])
+      setMessages(prev => [...prev.filter(m => m.id !== assistantId || m.content), errorMessage])
     } finally {
       setIsLoading(false)
+      setStreamingId(null)
     }
   }
 
@@ -181,7 +444,7 @@ export default function SmartDairyAI() {
     }
   }
 
-  const handleFileUpload = async (files: FileList | null, type: 'pdf' | 'csv') => {
+  const handleFileUpload = async (files: FileList | null, type: 'document' | 'csv') => {
     if (!files || files.length === 0) return
 
     setUploading(true)
@@ -192,7 +455,7 @@ export default function SmartDairyAI() {
         formData.append('files', file)
       }
 
-      const endpoint = type === 'pdf' ? '/api/documents/upload' : '/api/farm-data/upload'
+      const endpoint = type === 'document' ? '/api/documents/upload' : '/api/farm-data/upload'
       const response = await fetch(endpoint, {
         method: 'POST',
         body: formData
@@ -201,12 +464,19 @@ export default function SmartDairyAI() {
       const data = await response.json()
 
       if (response.ok) {
-        toast.success(`Successfully uploaded ${files.length} file(s)`)
-        if (type === 'pdf') {
+        const rejected = (data.results || []).filter((result: any) => result.error)
+        for (const result of rejected) {
+          toast.error(`${result.fileName}: ${result.error}`)
+        }
+        if (rejected.length < files.length) {
+          toast.success(`Uploaded ${files.length - rejected.length} file(s); processing continues in the background`)
+        }
+        if (type === 'document') {
           await loadDocuments()
         } else {
           await loadCSVFiles()
         }
+        await loadJobs()
       } else {
         toast.error(data.error || 'Upload failed')
       }
@@ -238,6 +508,10 @@ export default function SmartDairyAI() {
     }
   }
 
+  const toggleCSVFile = (fileId: string, included: boolean) => {
+    setExcludedCsvIds(prev => (included ? prev.filter(id => id !== fileId) : [...prev, fileId]))
+  }
+
   const handleDeleteCSVFile = async (fileId: string) => {
     try {
       const response = await fetch(`/api/farm-data/${fileId}`, {
@@ -256,6 +530,32 @@ export default function SmartDairyAI() {
     }
   }
 
+  // Per-file ingestion progress shown on document and data file cards
+  const renderJobStatus = (targetId: string) => {
+    const job = jobs.find(candidate => candidate.targetId === targetId)
+    if (!job) return null
+
+    if (isJobActive(job)) {
+      return (
+        <div className="mt-2 space-y-1">
+          <Progress value={Math.round(job.progress * 100)} className="h-1.5" />
+          <p className="text-xs text-muted-foreground">
+            {job.stage || (job.status === 'queued' ? 'Queued' : 'Processing')}
+          </p>
+        </div>
+      )
+    }
+    if (job.status === 'failed') {
+      return (
+        <p className="mt-1 flex items-center gap-1 text-xs text-destructive">
+          <AlertCircle className="h-3 w-3 shrink-0" />
+          Processing failed: {job.error}
+        </p>
+      )
+    }
+    return null
+  }
+
   const formatFileSize = (bytes: number) => {
     if (bytes < 1024) return bytes + ' B'
     if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB'
@@ -277,6 +577,26 @@ export default function SmartDairyAI() {
     }
   }
 
+  const getStreamStatus = (type?: string, activeTool?: string) => {
+    if (activeTool) return `Used ${activeTool.replace(/_/g, ' ')}, thinking...`
+    switch (type) {
+      case 'rag':
+        return 'Searching documents...'
+      case 'web_search':
+        return 'Searching the web...'
+      case 'csv_analysis':
+        return 'Analyzing farm data...'
+      case 'hybrid':
+        return 'Searching documents and the web...'
+      case 'agent':
+        return 'Combining farm data, documents and the web...'
+      case 'general':
+        return 'Writing answer...'
+      default:
+        return 'Thinking...'
+    }
+  }
+
   return (
     <div className="flex flex-col h-screen bg-background">
       {/* Header */}
@@ -311,9 +631,11 @@ export default function SmartDairyAI() {
         {/* Sidebar - Document Management */}
         <aside className="w-80 border-r bg-card/50 flex flex-col">
           <Tabs defaultValue="documents" className="flex-1 flex flex-col">
-            <TabsList className="grid w-full grid-cols-2 m-4">
+            <TabsList className="grid w-full grid-cols-4 m-4">
               <TabsTrigger value="documents">Documents</TabsTrigger>
               <TabsTrigger value="data">Farm Data</TabsTrigger>
+              <TabsTrigger value="calendar">Calendar</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
             </TabsList>
 
             <TabsContent value="documents" className="flex-1 flex flex-col px-4">
@@ -321,10 +643,10 @@ export default function SmartDairyAI() {
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept=".pdf"
+                  accept={DOCUMENT_ACCEPT}
                   multiple
                   className="hidden"
-                  onChange={(e) => handleFileUpload(e.target.files, 'pdf')}
+                  onChange={(e) => handleFileUpload(e.target.files, 'document')}
                 />
                 <Button
                   onClick={() => fileInputRef.current?.click()}
@@ -340,7 +662,7 @@ export default function SmartDairyAI() {
                   ) : (
                     <>
                       <Upload className="mr-2 h-4 w-4" />
-                      Upload PDFs
+                      Upload Documents
                     </>
                   )}
                 </Button>
@@ -351,7 +673,8 @@ export default function SmartDairyAI() {
                   {documents.length === 0 ? (
                     <div className="text-center py-8 text-muted-foreground text-sm">
                       No documents uploaded yet.<br />
-                      Upload dairy farm manuals and scientific papers.
+                      Upload manuals, papers, SOPs and training decks<br />
+                      (PDF, Word, PowerPoint, HTML, Markdown or text).
                     </div>
                   ) : (
                     documents.map((doc) => (
@@ -373,9 +696,25 @@ export default function SmartDairyAI() {
                                 </>
                               )}
                             </div>
-                            <div className="text-xs text-muted-foreground mt-1">
-                              {doc.chunkCount} chunks
-                            </div>
+                            {!isJobActive(jobs.find(job => job.targetId === doc.id)) && (
+                              <>
+                                <div className="text-xs text-muted-foreground mt-1">
+                                  {doc.chunkCount} chunks
+                                  {doc.ocrPages > 0 && (
+                                    <> • {doc.ocrPages} OCR page{doc.ocrPages === 1 ? '' : 's'}
+                                      {doc.ocrConfidence !== null && ` (${Math.round(doc.ocrConfidence)}% confidence)`}
+                                    </>
+                                  )}
+                                </div>
+                                {doc.extractionWarning && (
+                                  <p className="mt-1 flex items-start gap-1 text-xs text-amber-600 dark:text-amber-500">
+                                    <AlertTriangle className="h-3 w-3 mt-0.5 shrink-0" />
+                                    {doc.extractionWarning}
+                                  </p>
+                                )}
+                              </>
+                            )}
+                            {renderJobStatus(doc.id)}
                           </div>
                           <Button
                             size="icon"
@@ -422,7 +761,7 @@ export default function SmartDairyAI() {
                   )}
                 </Button>
                 <p className="text-xs text-muted-foreground mt-2 text-center">
-                  Upload farm management data files
+                  Checked files are analyzed together
                 </p>
               </div>
 
@@ -437,6 +776,12 @@ export default function SmartDairyAI() {
                     csvFiles.map((file) => (
                       <Card key={file.id} className="p-3">
                         <div className="flex items-start justify-between">
+                          <Checkbox
+                            className="mt-0.5 mr-2"
+                            checked={!excludedCsvIds.includes(file.id)}
+                            onCheckedChange={(checked) => toggleCSVFile(file.id, checked === true)}
+                            aria-label={`Include ${file.fileName} in analysis`}
+                          />
                           <div className="flex-1 min-w-0">
                             <div className="flex items-center gap-2 mb-1">
                               <Table className="h-4 w-4 text-muted-foreground shrink-0" />
@@ -457,6 +802,7 @@ export default function SmartDairyAI() {
                                 </Badge>
                               )}
                             </div>
+                            {renderJobStatus(file.id)}
                           </div>
                           <Button
                             size="icon"
@@ -473,6 +819,122 @@ export default function SmartDairyAI() {
                 </div>
               </ScrollArea>
             </TabsContent>
+
+            <TabsContent value="calendar" className="flex-1 flex flex-col px-4">
+              <ScrollArea className="flex-1 pr-4">
+                <HerdCalendar />
+              </ScrollArea>
+            </TabsContent>
+
+            <TabsContent value="history" className="flex-1 flex flex-col px-4">
+              <div className="mb-4 space-y-2">
+                <Button
+                  onClick={createNewSession}
+                  disabled={isLoading}
+                  className="w-full"
+                  variant="outline"
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  New Conversation
+                </Button>
+                <div className="relative">
+                  <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    value={sessionSearch}
+                    onChange={(e) => setSessionSearch(e.target.value)}
+                    placeholder="Search conversations..."
+                    className="pl-8"
+                  />
+                </div>
+              </div>
+
+              <ScrollArea className="flex-1 pr-4">
+                <div className="space-y-2">
+                  {sessions.length === 0 ? (
+                    <div className="text-center py-8 text-muted-foreground text-sm">
+                      {sessionSearch ? 'No matching conversations.' : 'No conversations yet.'}
+                    </div>
+                  ) : (
+                    sessions.map((session) => (
+                      <Card
+                        key={session.id}
+                        className={`p-3 cursor-pointer ${session.id === sessionId ? 'border-primary' : ''}`}
+                        onClick={() => !isLoading && editingSessionId !== session.id && openSession(session.id)}
+                      >
+                        <div className="flex items-start justify-between gap-1">
+                          <div className="flex-1 min-w-0">
+                            {editingSessionId === session.id ? (
+                              <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                                <Input
+                                  value={editingTitle}
+                                  onChange={(e) => setEditingTitle(e.target.value)}
+                                  onKeyDown={(e) => {
+                                    if (e.key === 'Enter') handleRenameSession(session.id)
+                                    if (e.key === 'Escape') setEditingSessionId(null)
+                                  }}
+                                  className="h-7 text-sm"
+                                  autoFocus
+                                />
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  className="h-7 w-7 shrink-0"
+                                  onClick={() => handleRenameSession(session.id)}
+                                >
+                                  <Check className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  className="h-7 w-7 shrink-0"
+                                  onClick={() => setEditingSessionId(null)}
+                                >
+                                  <X className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            ) : (
+                              <div className="flex items-center gap-2 mb-1">
+                                <MessageSquare className="h-4 w-4 text-muted-foreground shrink-0" />
+                                <p className="font-medium text-sm truncate">{session.title || 'Untitled'}</p>
+                              </div>
+                            )}
+                            {session.lastMessage && (
+                              <p className="text-xs text-muted-foreground truncate">{session.lastMessage}</p>
+                            )}
+                            <div className="text-xs text-muted-foreground mt-1">
+                              {session.messageCount} messages • {new Date(session.updatedAt).toLocaleDateString()}
+                            </div>
+                          </div>
+                          {editingSessionId !== session.id && (
+                            <div className="flex shrink-0" onClick={(e) => e.stopPropagation()}>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-8 w-8"
+                                onClick={() => {
+                                  setEditingSessionId(session.id)
+                                  setEditingTitle(session.title || '')
+                                }}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-8 w-8"
+                                onClick={() => handleDeleteSession(session.id)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          )}
+                        </div>
+                      </Card>
+                    ))
+                  )}
+                </div>
+              </ScrollArea>
+            </TabsContent>
           </Tabs>
         </aside>
 
@@ -535,7 +997,7 @@ export default function SmartDairyAI() {
                   </div>
                 </div>
               ) : (
-                messages.map((message) => (
+                messages.filter(m => m.id !== streamingId || m.content).map((message) => (
                   <div
                     key={message.id}
                     className={`flex gap-3 ${
@@ -561,30 +1023,34 @@ export default function SmartDairyAI() {
                         )}
                       </div>
                       <div className="prose prose-sm dark:prose-invert max-w-none">
-                        <ReactMarkdown>{message.content}</ReactMarkdown>
+                        {message.role === 'user'
+                          ? <ReactMarkdown>{message.content}</ReactMarkdown>
+                          : <CitedAnswer content={message.content} sources={message.sources} onOpenDocument={setViewerSource} />}
                       </div>
+                      {message.artifacts && message.artifacts.length > 0 && (
+                        <AnalysisArtifacts artifacts={message.artifacts} />
+                      )}
                       {message.sources && message.sources.length > 0 && (
                         <div className="mt-3 pt-3 border-t border-border/50">
                           <p className="text-xs font-medium mb-2">Sources:</p>
-                          <div className="flex flex-wrap gap-1">
-                            {message.sources.map((source: any, idx: number) => (
-                              <Badge key={idx} variant="outline" className="text-xs">
-                                {source.title || source.fileName || `Source ${idx + 1}`}
-                              </Badge>
-                            ))}
-                          </div>
+                          <SourceBadges sources={message.sources} onOpenDocument={setViewerSource} />
                         </div>
                       )}
                     </div>
                   </div>
                 ))
               )}
-              {isLoading && (
+              {isLoading && !messages.find(m => m.id === streamingId)?.content && (
                 <div className="flex gap-3 justify-start">
                   <div className="bg-muted rounded-lg p-4">
                     <div className="flex items-center gap-2">
                       <Loader2 className="h-4 w-4 animate-spin" />
-                      <span className="text-sm">Thinking...</span>
+                      <span className="text-sm">
+                        {getStreamStatus(
+                          messages.find(m => m.id === streamingId)?.queryType,
+                          messages.find(m => m.id === streamingId)?.activeTool
+                        )}
+                      </span>
                     </div>
                   </div>
                 </div>
@@ -622,6 +1088,8 @@ export default function SmartDairyAI() {
           </div>
         </div>
       </main>
+
+      <DocumentViewer source={viewerSource} onClose={() => setViewerSource(null)} />
     </div>
   )
 }
@@ -0,0 +1,158 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Line,
+  LineChart,
+  Scatter,
+  ScatterChart,
+  XAxis,
+  YAxis
+} from 'recharts'
+import { ArrowDown, ArrowUp, ArrowUpDown } from 'lucide-react'
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent
+} from '@/components/ui/chart'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { compareCells, type AnalysisArtifact, type ChartArtifact, type TableArtifact } from '@/lib/farm-data/artifacts'
+import type { CellValue } from '@/lib/farm-data/parser'
+
+const SERIES_COLORS = ['var(--chart-1)', 'var(--chart-2)', 'var(--chart-3)']
+
+function formatCell(value: CellValue): string {
+  if (value === null) return ''
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(2)
+  return value
+}
+
+// Result table with click-to-sort column headers
+function ArtifactTable({ artifact }: { artifact: TableArtifact }) {
+  const [sort, setSort] = useState<{ index: number; direction: 'asc' | 'desc' } | null>(null)
+
+  const rows = useMemo(() => {
+    if (!sort) return artifact.rows
+    return [...artifact.rows].sort((a, b) => {
+      return compareCells(a[sort.index], b[sort.index], sort.direction)
+    })
+  }, [artifact.rows, sort])
+
+  const toggleSort = (index: number) => {
+    setSort(prev => {
+      if (!prev || prev.index !== index) return { index, direction: 'asc' }
+      if (prev.direction === 'asc') return { index, direction: 'desc' }
+      return null
+    })
+  }
+
+  return (
+    <div className="rounded-md border bg-background max-h-80 overflow-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            {artifact.columns.map((column, index) => (
+              <TableHead key={column}>
+                <button
+                  type="button"
+                  className="inline-flex items-center gap-1 hover:text-foreground"
+                  onClick={() => toggleSort(index)}
+                >
+                  {column}
+                  {sort?.index === index ? (
+                    sort.direction === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
+                  ) : (
+                    <ArrowUpDown className="h-3 w-3 opacity-50" />
+                  )}
+                </button>
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row, rowIndex) => (
+            <TableRow key={rowIndex}>
+              {row.map((cell, cellIndex) => (
+                <TableCell key={cellIndex} className={typeof cell === 'number' ? 'text-right tabular-nums' : ''}>
+                  {formatCell(cell)}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
+
+function ArtifactChart({ artifact }: { artifact: ChartArtifact }) {
+  // Series get CSS-safe keys; column names may contain spaces or symbols
+  const keys = artifact.y.map((_, index) => `series${index}`)
+  const config: ChartConfig = Object.fromEntries(
+    artifact.y.map((series, index) => [keys[index], { label: series, color: SERIES_COLORS[index % SERIES_COLORS.length] }])
+  )
+  const data = artifact.data.map(point => ({
+    [artifact.x]: point[artifact.x],
+    ...Object.fromEntries(artifact.y.map((series, index) => [keys[index], point[series]]))
+  }))
+  const numericX = artifact.data.every(point => typeof point[artifact.x] === 'number')
+
+  return (
+    <ChartContainer config={config} className="aspect-auto h-64 w-full rounded-md border bg-background p-2">
+      {artifact.chartType === 'line' ? (
+        <LineChart data={data} margin={{ left: 4, right: 12, top: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey={artifact.x} type={numericX ? 'number' : 'category'} domain={['dataMin', 'dataMax']} tickLine={false} />
+          <YAxis tickLine={false} axisLine={false} width={40} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          {keys.length > 1 && <ChartLegend content={<ChartLegendContent />} />}
+          {keys.map(key => (
+            <Line key={key} dataKey={key} stroke={`var(--color-${key})`} dot={false} strokeWidth={2} connectNulls />
+          ))}
+        </LineChart>
+      ) : artifact.chartType === 'bar' ? (
+        <BarChart data={data} margin={{ left: 4, right: 12, top: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey={artifact.x} tickLine={false} />
+          <YAxis tickLine={false} axisLine={false} width={40} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          {keys.length > 1 && <ChartLegend content={<ChartLegendContent />} />}
+          {keys.map(key => (
+            <Bar key={key} dataKey={key} fill={`var(--color-${key})`} radius={4} />
+          ))}
+        </BarChart>
+      ) : (
+        <ScatterChart margin={{ left: 4, right: 12, top: 8 }}>
+          <CartesianGrid />
+          <XAxis dataKey={artifact.x} type="number" name={artifact.x} domain={['dataMin', 'dataMax']} tickLine={false} />
+          <YAxis dataKey={keys[0]} type="number" name={artifact.y[0]} tickLine={false} axisLine={false} width={40} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Scatter data={data} fill={`var(--color-${keys[0]})`} />
+        </ScatterChart>
+      )}
+    </ChartContainer>
+  )
+}
+
+// Tables and charts attached to an analysis answer
+export function AnalysisArtifacts({ artifacts }: { artifacts: AnalysisArtifact[] }) {
+  // Charts lead; the table holds the exact numbers
+  const ordered = [...artifacts].sort((a, b) => (a.kind === b.kind ? 0 : a.kind === 'chart' ? -1 : 1))
+
+  return (
+    <div className="mt-3 space-y-3">
+      {ordered.map((artifact, index) => (
+        <div key={index} className="space-y-1">
+          <p className="text-xs font-medium text-muted-foreground">{artifact.title}</p>
+          {artifact.kind === 'chart' ? <ArtifactChart artifact={artifact} /> : <ArtifactTable artifact={artifact} />}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,149 @@
+'use client'
+
+import type { ReactNode } from 'react'
+import ReactMarkdown from 'react-markdown'
+import { BookOpen, ExternalLink, FileText, Globe } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+
+// Inline citation markers like [2] or [1, 3] that are not already markdown links
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g
+const CITATION_HREF = '#cite-'
+
+// Where a document source sits: its pages, its slides, or the heading it is under
+export function locationLabel(source: any): string | null {
+  if (typeof source.pageStart === 'number') {
+    return source.pageEnd && source.pageEnd !== source.pageStart
+      ? `pp. ${source.pageStart}-${source.pageEnd}`
+      : `p. ${source.pageStart}`
+  }
+  if (typeof source.slideStart === 'number') {
+    return source.slideEnd && source.slideEnd !== source.slideStart
+      ? `slides ${source.slideStart}-${source.slideEnd}`
+      : `slide ${source.slideStart}`
+  }
+  return Array.isArray(source.headings) && source.headings.length > 0 ? source.headings[source.headings.length - 1] : null
+}
+
+// Where the citation's link goes: the PDF at the cited page, or the web result
+function sourceLink(source: any): string | null {
+  if (source.url) return source.url
+  if (!source.documentId) return null
+  return `/api/documents/${source.documentId}/file${typeof source.pageStart === 'number' ? `#page=${source.pageStart}` : ''}`
+}
+
+// Called with a document source to show it in the in-app viewer
+type OpenDocument = (source: any) => void
+
+// Popover with the exact passage a citation points to
+function CitationPopover({ source, onOpenDocument, children }: { source: any; onOpenDocument?: OpenDocument; children: ReactNode }) {
+  const link = sourceLink(source)
+  const location = locationLabel(source)
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-96 space-y-2" align="start">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          {source.url ? <Globe className="h-4 w-4 shrink-0" /> : <FileText className="h-4 w-4 shrink-0" />}
+          <span className="truncate">{source.title || source.fileName}</span>
+          {location && <Badge variant="secondary" className="text-xs shrink-0 max-w-40 truncate">{location}</Badge>}
+        </div>
+        {source.excerpt ? (
+          <p className="max-h-60 overflow-y-auto whitespace-pre-wrap rounded bg-muted p-2 text-xs">
+            {source.excerpt}
+          </p>
+        ) : (
+          <p className="text-xs text-muted-foreground">No passage text was kept for this source.</p>
+        )}
+        {source.documentId && onOpenDocument && (
+          <button
+            type="button"
+            onClick={() => onOpenDocument(source)}
+            className="mr-3 inline-flex items-center gap-1 text-xs text-primary hover:underline"
+          >
+            <BookOpen className="h-3 w-3" />
+            {location ? `View ${location} in document` : 'View in document'}
+          </button>
+        )}
+        {link && (
+          <a
+            href={link}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
+          >
+            <ExternalLink className="h-3 w-3" />
+            {source.url ? 'Open web page' : 'Open in new tab'}
+          </a>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+// Markdown answer whose [n] markers open the cited passage
+export function CitedAnswer({
+  content,
+  sources = [],
+  onOpenDocument
+}: {
+  content: string
+  sources?: any[]
+  onOpenDocument?: OpenDocument
+}) {
+  const cited = new Map<number, any>(
+    sources.filter(source => typeof source.citation === 'number').map(source => [source.citation, source])
+  )
+
+  // Known citations become #cite-n links, rendered as popover triggers below
+  const linked = cited.size === 0 ? content : content.replace(CITATION_PATTERN, (marker, numbers: string) => {
+    const ids = numbers.split(',').map(id => Number(id.trim()))
+    return ids.every(id => cited.has(id)) ? ids.map(id => `[${id}](${CITATION_HREF}${id})`).join('') : marker
+  })
+
+  return (
+    <ReactMarkdown
+      components={{
+        a: ({ href, children }) => {
+          const source = href?.startsWith(CITATION_HREF) ? cited.get(Number(href.slice(CITATION_HREF.length))) : null
+          if (!source) {
+            return <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>
+          }
+          return (
+            <CitationPopover source={source} onOpenDocument={onOpenDocument}>
+              <button
+                type="button"
+                className="mx-0.5 inline-flex h-4 min-w-4 items-center justify-center rounded bg-primary/10 px-1 align-super text-[10px] font-medium text-primary no-underline hover:bg-primary/20"
+              >
+                {source.citation}
+              </button>
+            </CitationPopover>
+          )
+        }
+      }}
+    >
+      {linked}
+    </ReactMarkdown>
+  )
+}
+
+// Source badges under an answer; numbered sources open the same popover as inline citations
+export function SourceBadges({ sources, onOpenDocument }: { sources: any[]; onOpenDocument?: OpenDocument }) {
+  return (
+    <div className="flex flex-wrap gap-1">
+      {sources.map((source, idx) => {
+        const location = locationLabel(source)
+        const label = `${typeof source.citation === 'number' ? `[${source.citation}] ` : ''}${source.title || source.fileName || `Source ${idx + 1}`}${location ? ` (${location})` : ''}`
+        const badge = (
+          <Badge key={idx} variant="outline" className={`text-xs ${source.excerpt || source.url ? 'cursor-pointer hover:bg-accent' : ''}`}>
+            {label}
+          </Badge>
+        )
+        return source.excerpt || source.url
+          ? <CitationPopover key={idx} source={source} onOpenDocument={onOpenDocument}>{badge}</CitationPopover>
+          : badge
+      })}
+    </div>
+  )
+}
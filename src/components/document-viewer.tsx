@@ -0,0 +1,232 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { ChevronLeft, ChevronRight, ExternalLink, Loader2 } from 'lucide-react'
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet'
+import { locationLabel } from '@/components/cited-answer'
+
+// Side panel that renders an uploaded PDF with pdf.js, opens it at the cited
+// page and highlights the text-layer lines that belong to the cited chunk.
+
+// Shortest line (ignoring whitespace) matched against the passage; shorter
+// lines are mostly single words that would match anywhere on the page
+const MIN_MATCH_CHARS = 12
+
+type PdfJs = typeof import('pdfjs-dist')
+
+let pdfjsPromise: Promise<PdfJs> | null = null
+
+// pdf.js touches browser globals on import, so it is loaded on first use
+function loadPdfJs(): Promise<PdfJs> {
+  pdfjsPromise ??= import('pdfjs-dist').then(pdfjs => {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString()
+    return pdfjs
+  })
+  return pdfjsPromise
+}
+
+// Compare text without case or whitespace, which pypdf and pdf.js extract differently
+const squash = (text: string) => text.toLowerCase().replace(/\s+/g, '')
+
+// Mark text-layer lines that appear in the passage; returns the first one
+function highlightPassage(textDivs: HTMLElement[], excerpt: string): HTMLElement | null {
+  const passage = squash(excerpt)
+  let first: HTMLElement | null = null
+
+  for (const div of textDivs) {
+    const text = squash(div.textContent || '')
+    if (text.length < MIN_MATCH_CHARS || !passage.includes(text)) continue
+    div.classList.add('source-highlight')
+    first ??= div
+  }
+
+  return first
+}
+
+export function DocumentViewer({ source, onClose }: { source: any | null; onClose: () => void }) {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null)
+  const [pageNumber, setPageNumber] = useState(1)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [matched, setMatched] = useState<boolean | null>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const textLayerRef = useRef<HTMLDivElement>(null)
+
+  const documentId: string | undefined = source?.documentId
+  const isPdf = !!source?.fileName && /\.pdf$/i.test(source.fileName)
+  const pageStart: number = typeof source?.pageStart === 'number' ? source.pageStart : 1
+  const pageEnd: number = typeof source?.pageEnd === 'number' ? source.pageEnd : pageStart
+  const fileUrl = documentId ? `/api/documents/${documentId}/file` : null
+
+  // Load the document whenever a different one is opened
+  useEffect(() => {
+    setPageNumber(pageStart)
+    if (!fileUrl || !isPdf) return
+
+    let cancelled = false
+    let loaded: PDFDocumentProxy | null = null
+    setLoading(true)
+    setError(null)
+    setMatched(null)
+    setPdf(null)
+
+    loadPdfJs()
+      .then(pdfjs => pdfjs.getDocument(fileUrl).promise)
+      .then(document => {
+        loaded = document
+        if (!cancelled) setPdf(document)
+      })
+      .catch((loadError: any) => {
+        console.error('Failed to load PDF:', loadError)
+        if (!cancelled) setError('The document could not be loaded.')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+      loaded?.destroy()
+    }
+  }, [fileUrl, isPdf, pageStart])
+
+  // Render the current page and its text layer, highlighting the passage on cited pages
+  useEffect(() => {
+    if (!pdf || !canvasRef.current || !textLayerRef.current || !containerRef.current) return
+
+    let cancelled = false
+    let renderTask: RenderTask | null = null
+    const canvas = canvasRef.current
+    const textLayerDiv = textLayerRef.current
+    // Fit the page to the panel, less its horizontal padding
+    const width = containerRef.current.clientWidth - 32
+
+    const render = async () => {
+      const pdfjs = await loadPdfJs()
+      const page = await pdf.getPage(pageNumber)
+      const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width })
+      const ratio = window.devicePixelRatio || 1
+
+      canvas.width = Math.floor(viewport.width * ratio)
+      canvas.height = Math.floor(viewport.height * ratio)
+      canvas.style.width = `${viewport.width}px`
+      canvas.style.height = `${viewport.height}px`
+
+      renderTask = page.render({
+        canvasContext: canvas.getContext('2d') as CanvasRenderingContext2D,
+        viewport,
+        transform: ratio !== 1 ? [ratio, 0, 0, ratio, 0, 0] : undefined
+      })
+      await renderTask.promise
+      if (cancelled) return
+
+      textLayerDiv.replaceChildren()
+      textLayerDiv.style.setProperty('--scale-factor', String(viewport.scale))
+      const textLayer = new pdfjs.TextLayer({ textContentSource: page.streamTextContent(), container: textLayerDiv, viewport })
+      await textLayer.render()
+      if (cancelled) return
+
+      if (source?.excerpt && pageNumber >= pageStart && pageNumber <= pageEnd) {
+        const first = highlightPassage(textLayer.textDivs, source.excerpt)
+        setMatched(first !== null)
+        first?.scrollIntoView({ block: 'center' })
+      } else {
+        setMatched(null)
+      }
+    }
+
+    render().catch((renderError: any) => {
+      // Cancelled renders reject when the page changes mid-render
+      if (!cancelled) {
+        console.error('Failed to render PDF page:', renderError)
+        setError('This page could not be rendered.')
+      }
+    })
+
+    return () => {
+      cancelled = true
+      renderTask?.cancel()
+    }
+  }, [pdf, pageNumber, pageStart, pageEnd, source?.excerpt])
+
+  const location = source ? locationLabel(source) : null
+
+  return (
+    <Sheet open={!!source} onOpenChange={open => !open && onClose()}>
+      <SheetContent side="right" className="w-full sm:max-w-3xl gap-0">
+        <SheetHeader className="border-b">
+          <SheetTitle className="flex items-center gap-2 pr-6">
+            <span className="truncate">{source?.fileName}</span>
+            {location && <Badge variant="secondary" className="text-xs max-w-48 truncate">{location}</Badge>}
+          </SheetTitle>
+          <SheetDescription>
+            {!isPdf
+              ? 'The cited passage is shown below.'
+              : matched === false
+                ? 'The cited passage could not be matched on this page; it is shown below.'
+                : 'The cited passage is highlighted on the page.'}
+          </SheetDescription>
+        </SheetHeader>
+
+        {source?.excerpt && (matched === false || !isPdf) && (
+          <p className="mx-4 mt-3 max-h-32 overflow-y-auto whitespace-pre-wrap rounded bg-muted p-2 text-xs">
+            {source.excerpt}
+          </p>
+        )}
+
+        {isPdf ? (
+          <>
+            <div className="flex items-center gap-2 px-4 py-2">
+              <Button variant="outline" size="sm" disabled={pageNumber <= 1} onClick={() => setPageNumber(page => page - 1)}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-sm">
+                Page {pageNumber}{pdf ? ` of ${pdf.numPages}` : ''}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!pdf || pageNumber >= pdf.numPages}
+                onClick={() => setPageNumber(page => page + 1)}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+              {fileUrl && (
+                <a
+                  href={`${fileUrl}#page=${pageNumber}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="ml-auto inline-flex items-center gap-1 text-xs text-primary hover:underline"
+                >
+                  <ExternalLink className="h-3 w-3" />
+                  Open in new tab
+                </a>
+              )}
+            </div>
+            <div ref={containerRef} className="relative flex-1 overflow-y-auto px-4 pb-4">
+              {loading && (
+                <div className="flex items-center gap-2 py-8 text-sm text-muted-foreground">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Loading document...
+                </div>
+              )}
+              {error && <p className="py-8 text-sm text-destructive">{error}</p>}
+              <div className="relative mx-auto w-fit shadow">
+                <canvas ref={canvasRef} />
+                <div ref={textLayerRef} className="textLayer" />
+              </div>
+            </div>
+          </>
+        ) : (
+          <p className="px-4 py-3 text-sm text-muted-foreground">
+            Page preview is only available for PDF documents.
+          </p>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
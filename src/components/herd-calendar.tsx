@@ -0,0 +1,126 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Calendar } from '@/components/ui/calendar'
+import type { CalendarAlert, CalendarEvent, CalendarEventType } from '@/lib/herd/calendar'
+
+const EVENT_STYLES: Record<CalendarEventType, { label: string; className: string }> = {
+  vwp_end: { label: 'VWP ends', className: 'border-sky-500 text-sky-700 dark:text-sky-300' },
+  rebreed: { label: 'Rebreed', className: 'border-rose-500 text-rose-700 dark:text-rose-300' },
+  preg_check: { label: 'Preg check', className: 'border-violet-500 text-violet-700 dark:text-violet-300' },
+  dry_off: { label: 'Dry off', className: 'border-amber-500 text-amber-700 dark:text-amber-300' },
+  expected_calving: { label: 'Calving', className: 'border-emerald-500 text-emerald-700 dark:text-emerald-300' }
+}
+
+// Local calendar date as YYYY-MM-DD, matching the API's event dates
+function dateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
+
+// Month calendar of projected breeding and transition events, with due and
+// overdue alerts above it and the selected day's (or the rest of the month's)
+// events listed below
+export function HerdCalendar() {
+  const [month, setMonth] = useState(() => new Date())
+  const [selected, setSelected] = useState<Date | undefined>()
+  const [events, setEvents] = useState<CalendarEvent[]>([])
+  const [alerts, setAlerts] = useState<CalendarAlert[]>([])
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    const from = new Date(month.getFullYear(), month.getMonth(), 1)
+    const to = new Date(month.getFullYear(), month.getMonth() + 1, 0)
+    const controller = new AbortController()
+
+    setLoading(true)
+    fetch(`/api/herd/calendar?from=${dateKey(from)}&to=${dateKey(to)}`, { signal: controller.signal })
+      .then(response => (response.ok ? response.json() : { events: [], alerts: [] }))
+      .then(data => {
+        setEvents(data.events || [])
+        setAlerts(data.alerts || [])
+      })
+      .catch(error => {
+        if (error.name !== 'AbortError') console.error('Failed to load herd calendar:', error)
+      })
+      .finally(() => setLoading(false))
+
+    return () => controller.abort()
+  }, [month])
+
+  const eventDays = useMemo(
+    () => Array.from(new Set(events.map(event => event.date))).map(date => new Date(`${date}T00:00:00`)),
+    [events]
+  )
+
+  const listed = useMemo(() => {
+    if (selected) return events.filter(event => event.date === dateKey(selected))
+    const today = dateKey(new Date())
+    return events.filter(event => event.date >= today)
+  }, [events, selected])
+
+  return (
+    <div className="flex flex-col gap-3">
+      {alerts.length > 0 && (
+        <div className="space-y-1 rounded-md border p-2">
+          <p className="text-xs font-medium text-muted-foreground">Alerts</p>
+          {alerts.map(alert => (
+            <div key={`${alert.cowId}:${alert.type}:${alert.date}`} className="flex items-center justify-between gap-2 text-xs">
+              <span className="truncate">Cow {alert.cowId} • {EVENT_STYLES[alert.type].label}</span>
+              <span className={alert.status === 'overdue' ? 'shrink-0 text-destructive' : 'shrink-0 text-muted-foreground'}>
+                {alert.status === 'overdue'
+                  ? `${-alert.daysUntil}d overdue`
+                  : alert.daysUntil === 0 ? 'today' : `in ${alert.daysUntil}d`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Calendar
+        mode="single"
+        month={month}
+        onMonthChange={setMonth}
+        selected={selected}
+        onSelect={setSelected}
+        modifiers={{ hasEvents: eventDays }}
+        modifiersClassNames={{
+          hasEvents: 'after:absolute after:bottom-1 after:left-1/2 after:size-1 after:-translate-x-1/2 after:rounded-full after:bg-primary'
+        }}
+        className="mx-auto rounded-md border"
+      />
+
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-medium text-muted-foreground">
+          {selected ? selected.toLocaleDateString() : 'Upcoming this month'}
+        </p>
+        {loading && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+      </div>
+
+      <div className="space-y-2">
+        {listed.length === 0 ? (
+          <p className="text-center py-4 text-muted-foreground text-sm">
+            {events.length === 0 && !loading
+              ? 'No projected events. Upload herd files with calving and breeding records.'
+              : 'No events on this day.'}
+          </p>
+        ) : (
+          listed.map(event => (
+            <div key={`${event.cowId}:${event.type}:${event.date}`} className="flex items-start justify-between gap-2 text-sm">
+              <div className="min-w-0">
+                <p className="font-medium">Cow {event.cowId}</p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {selected ? event.basis : `${event.date} • ${event.basis}`}
+                </p>
+              </div>
+              <Badge variant="outline" className={`shrink-0 text-xs ${EVENT_STYLES[event.type].className}`}>
+                {EVENT_STYLES[event.type].label}
+              </Badge>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,7 @@
+// Runs once when the server starts: resume ingestion jobs queued before a restart
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startIngestionWorker } = await import('@/lib/ingestion-queue')
+    startIngestionWorker()
+  }
+}
@@ -0,0 +1,291 @@
+import { db } from '@/lib/db'
+import { retrieveRelevantChunks } from '@/lib/retrieval'
+import { loadDataTable } from '@/lib/farm-data/parser'
+import { adaptTable } from '@/lib/farm-data/adapters'
+import { combineTables, SourceTable } from '@/lib/farm-data/combine'
+import { AnalysisArtifact, buildAnalysisArtifacts } from '@/lib/farm-data/artifacts'
+import { HERD_TOOLS, HerdTool } from '@/lib/herd/tools'
+import {
+  executeAnalysisPlan,
+  formatAnalysisResult,
+  planAnalysis,
+  summarizeTable
+} from '@/lib/farm-data/analysis'
+
+// Tools the chat agent can call while answering. Each tool returns text for
+// the LLM plus the sources and tables/charts shown with the answer; which
+// tools are offered depends on the documents and files the user selected.
+
+export type AgentToolCategory = 'documents' | 'web' | 'farm_data'
+
+export interface AgentToolContext {
+  zai: any
+  documentIds: string[]
+  csvFileIds: string[]
+  // Passages returned by search_documents; raised when retrying a weak answer
+  documentTopK?: number
+  // Number given to the first passage or web result this call cites
+  citationStart?: number
+  // Chunks cited by earlier calls, left out so each passage keeps one number
+  citedChunkIds?: Set<string>
+}
+
+export interface AgentToolOutput {
+  content: string
+  sources: any[]
+  artifacts: AnalysisArtifact[]
+}
+
+export interface AgentTool {
+  name: string
+  description: string
+  category: AgentToolCategory
+  // Argument name -> description, shown to the LLM
+  parameters: Record<string, string>
+  run: (args: Record<string, string>, context: AgentToolContext) => Promise<AgentToolOutput>
+}
+
+// Passages returned by a document search unless the context asks for more
+const DEFAULT_DOCUMENT_TOP_K = 5
+// Maximum number of farm data files combined in one analysis
+const MAX_ANALYSIS_FILES = 10
+// Web search results are reused for an hour
+const WEB_CACHE_MS = 3600000
+
+interface ChunkLocation {
+  pageStart: number | null
+  pageEnd: number | null
+  slideStart: number | null
+  slideEnd: number | null
+  headings: string[]
+}
+
+// Page or slide range and headings stored in chunk metadata at upload; null for
+// chunks indexed before they were tracked or formats without them
+function chunkLocation(metadata: string | null): ChunkLocation {
+  try {
+    const parsed = metadata ? JSON.parse(metadata) : {}
+    const pageStart = typeof parsed.pageStart === 'number' ? parsed.pageStart : null
+    const slideStart = typeof parsed.slideStart === 'number' ? parsed.slideStart : null
+    return {
+      pageStart,
+      pageEnd: typeof parsed.pageEnd === 'number' ? parsed.pageEnd : pageStart,
+      slideStart,
+      slideEnd: typeof parsed.slideEnd === 'number' ? parsed.slideEnd : slideStart,
+      headings: Array.isArray(parsed.headings) ? parsed.headings : []
+    }
+  } catch {
+    return { pageStart: null, pageEnd: null, slideStart: null, slideEnd: null, headings: [] }
+  }
+}
+
+function locationLabel({ pageStart, pageEnd, slideStart, slideEnd, headings }: ChunkLocation): string {
+  if (pageStart !== null) {
+    return pageEnd !== null && pageEnd !== pageStart ? `, pp. ${pageStart}-${pageEnd}` : `, p. ${pageStart}`
+  }
+  if (slideStart !== null) {
+    return slideEnd !== null && slideEnd !== slideStart ? `, slides ${slideStart}-${slideEnd}` : `, slide ${slideStart}`
+  }
+  return headings.length > 0 ? `, section "${headings[headings.length - 1]}"` : ''
+}
+
+const searchDocumentsTool: AgentTool = {
+  name: 'search_documents',
+  description: 'Search the selected dairy manuals, scientific papers, SOPs and training decks for passages relevant to a question',
+  category: 'documents',
+  parameters: { query: 'What to look for in the documents' },
+  async run(args, context) {
+    const topK = context.documentTopK ?? DEFAULT_DOCUMENT_TOP_K
+    const cited = context.citedChunkIds ?? new Set<string>()
+    const retrieved = await retrieveRelevantChunks(context.zai, args.query, context.documentIds, {
+      topK: topK + cited.size,
+      candidatePool: Math.max(30, (topK + cited.size) * 6)
+    })
+    const chunks = retrieved.filter(chunk => !cited.has(chunk.id)).slice(0, topK)
+    if (chunks.length === 0) {
+      return {
+        content: retrieved.length > 0
+          ? 'No relevant passages beyond those already cited.'
+          : 'No relevant passages found in the selected documents.',
+        sources: [],
+        artifacts: []
+      }
+    }
+
+    const first = context.citationStart ?? 1
+    const numbered = chunks.map((chunk, index) => ({ chunk, citation: first + index, location: chunkLocation(chunk.metadata) }))
+
+    return {
+      content: numbered
+        .map(({ chunk, citation, location }) => `[${citation}] ${chunk.document.fileName}${locationLabel(location)}\n${chunk.content}`)
+        .join('\n\n---\n\n'),
+      sources: numbered.map(({ chunk, citation, location }) => ({
+        citation,
+        chunkId: chunk.id,
+        documentId: chunk.documentId,
+        fileName: chunk.document.fileName,
+        type: 'Document',
+        chunkIndex: chunk.chunkIndex,
+        ...location,
+        excerpt: chunk.content,
+        scores: chunk.scores
+      })),
+      artifacts: []
+    }
+  }
+}
+
+// Web search with an hour-long cache per query
+async function searchWeb(zai: any, query: string): Promise<any[]> {
+  const cached = await db.webSearchCache.findUnique({ where: { query } })
+
+  if (cached && Date.now() - new Date(cached.searchedAt).getTime() < WEB_CACHE_MS) {
+    await db.webSearchCache.update({
+      where: { query },
+      data: { hitCount: { increment: 1 } }
+    })
+    return JSON.parse(cached.results)
+  }
+
+  const results = (await zai.functions.invoke('web_search', {
+    query: `dairy farming ${query}`,
+    num: 5
+  })) || []
+
+  if (cached) {
+    await db.webSearchCache.update({
+      where: { query },
+      data: { results: JSON.stringify(results), searchedAt: new Date(), hitCount: 1 }
+    })
+  } else {
+    await db.webSearchCache.create({ data: { query, results: JSON.stringify(results) } })
+  }
+
+  return results
+}
+
+const webSearchTool: AgentTool = {
+  name: 'web_search',
+  description: 'Search the web for current information: prices, regulations, news, recent research',
+  category: 'web',
+  parameters: { query: 'Search terms' },
+  async run(args, context) {
+    const results = await searchWeb(context.zai, args.query)
+    if (results.length === 0) {
+      return { content: 'The web search returned no results.', sources: [], artifacts: [] }
+    }
+
+    const first = context.citationStart ?? 1
+    return {
+      content: results
+        .map((result: any, index: number) => `[${first + index}] ${result.name} (${result.url})\n${result.snippet}`)
+        .join('\n\n---\n\n'),
+      sources: results.map((result: any, index: number) => ({
+        citation: first + index,
+        title: result.name,
+        url: result.url,
+        type: 'Web Search',
+        excerpt: result.snippet
+      })),
+      artifacts: []
+    }
+  }
+}
+
+const queryFarmDataTool: AgentTool = {
+  name: 'query_farm_data',
+  description: 'Answer a question by computing over the selected farm data files (filters, averages, groupings, top cows, trends)',
+  category: 'farm_data',
+  parameters: { question: 'The data question, e.g. "average milk by lactation"' },
+  async run(args, context) {
+    // Load the selected files, most recent first
+    const farmDataFiles = await db.farmDataFile.findMany({
+      where: { id: { in: context.csvFileIds } },
+      orderBy: { uploadedAt: 'desc' },
+      take: MAX_ANALYSIS_FILES
+    })
+
+    if (farmDataFiles.length === 0) {
+      return { content: 'No farm data files are selected.', sources: [], artifacts: [] }
+    }
+
+    // Columns are renamed to the canonical herd schema so questions work across source systems
+    const loaded: (SourceTable & { sourceName: string })[] = []
+    for (const file of farmDataFiles) {
+      try {
+        const rawTable = await loadDataTable(file.filePath, file.fileName, file.primarySheet || undefined)
+        const { table, sourceName } = adaptTable(rawTable, file.sourceSystem)
+        loaded.push({ fileName: file.fileName, table, sourceName })
+      } catch (error) {
+        console.error(`Failed to load farm data file ${file.fileName}:`, error)
+      }
+    }
+
+    if (loaded.length === 0) {
+      throw new Error('none of the selected files could be read')
+    }
+
+    // Same-schema files are stacked and differing files joined on cow ID / date
+    const combined = combineTables(loaded)
+    const table = combined.table
+
+    // Plan the analysis with the LLM, then execute the validated plan in-process
+    const plan = await planAnalysis(context.zai, args.question, table)
+    const result = plan ? executeAnalysisPlan(table, plan) : summarizeTable(table)
+
+    await db.farmDataFile.updateMany({
+      where: { id: { in: farmDataFiles.map(file => file.id) } },
+      data: { lastAccessed: new Date() }
+    })
+
+    return {
+      content: loaded.length > 1
+        ? `Files combined: ${combined.description}\n\n${formatAnalysisResult(result)}`
+        : formatAnalysisResult(result),
+      sources: loaded.map(file => ({
+        fileName: file.fileName,
+        type: 'CSV Analysis',
+        sourceSystem: file.sourceName,
+        analysis: combined.skippedFiles.includes(file.fileName)
+          ? 'not used (no shared cow ID or date column)'
+          : result.description
+      })),
+      // Tables and charts are rendered alongside the narrative answer
+      artifacts: buildAnalysisArtifacts(result, { chart: plan?.chart, inferChart: plan !== null })
+    }
+  }
+}
+
+// Herd analytics and calculators computed from the herd database
+function herdAgentTool(tool: HerdTool): AgentTool {
+  return {
+    name: tool.name,
+    description: tool.description,
+    category: 'farm_data',
+    parameters: { question: 'The question, including any cow, group, period, feed amounts or prices it mentions' },
+    async run(args) {
+      const result = await tool.run(args.question)
+      if (!result) {
+        return { content: 'No herd records are available to answer this.', sources: [], artifacts: [] }
+      }
+      return {
+        content: result.summary,
+        sources: [{ title: tool.description, type: 'Herd Analytics', tool: tool.name }],
+        artifacts: result.artifacts
+      }
+    }
+  }
+}
+
+// Tools usable with the user's selection; herd analytics need farm data selected unless standalone
+export function availableAgentTools(context: AgentToolContext): AgentTool[] {
+  const hasDocuments = context.documentIds.length > 0
+  const hasFarmData = context.csvFileIds.length > 0
+
+  return [
+    ...(hasDocuments ? [searchDocumentsTool] : []),
+    ...(hasFarmData ? [queryFarmDataTool] : []),
+    ...HERD_TOOLS.filter(tool => tool.standalone || hasFarmData).map(herdAgentTool),
+    webSearchTool
+  ]
+}
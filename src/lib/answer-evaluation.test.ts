@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { gradeAnswer, heuristicGrade, qualityThreshold } from '@/lib/answer-evaluation'
+import { fakeZai } from '@/lib/test-utils'
+
+const query = 'How long should the dry period be for dairy cows?'
+const evidence = 'A dry period of 60 days before calving lets the udder regenerate. Dry periods shorter than 40 days reduce milk yield.'
+const grounded = 'Dairy cows need a dry period of about 60 days before calving so the udder can regenerate.'
+
+describe('qualityThreshold', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('uses ANSWER_QUALITY_THRESHOLD when it is a valid share', () => {
+    vi.stubEnv('ANSWER_QUALITY_THRESHOLD', '0.75')
+    expect(qualityThreshold()).toBe(0.75)
+  })
+
+  it('falls back to the default for missing or invalid values', () => {
+    vi.stubEnv('ANSWER_QUALITY_THRESHOLD', '')
+    expect(qualityThreshold()).toBe(0.6)
+    vi.stubEnv('ANSWER_QUALITY_THRESHOLD', '2')
+    expect(qualityThreshold()).toBe(0.6)
+    vi.stubEnv('ANSWER_QUALITY_THRESHOLD', 'high')
+    expect(qualityThreshold()).toBe(0.6)
+  })
+})
+
+describe('heuristicGrade', () => {
+  it('scores a grounded answer above an unrelated one', () => {
+    const good = heuristicGrade(query, grounded, evidence)
+    const bad = heuristicGrade(query, 'Robotic milking systems reduce labour costs on large farms.', evidence)
+
+    expect(good.method).toBe('heuristic')
+    expect(good.grounded).toBeGreaterThan(0.6)
+    expect(good.answered).toBeGreaterThan(0.6)
+    expect(good.score).toBeGreaterThan(bad.score)
+    expect(bad.grounded).toBeLessThan(0.3)
+  })
+
+  it('grades on answering alone without evidence', () => {
+    const grade = heuristicGrade(query, grounded, '  ')
+    expect(grade.grounded).toBeNull()
+    expect(grade.score).toBe(grade.answered)
+  })
+
+  it('gives an empty answer no credit for answering', () => {
+    expect(heuristicGrade(query, '', evidence).answered).toBe(0)
+  })
+
+  it('keeps scores between 0 and 1', () => {
+    const grade = heuristicGrade('dry period', evidence, evidence)
+    expect(grade.grounded).toBe(1)
+    expect(grade.answered).toBe(1)
+    expect(grade.score).toBe(1)
+  })
+})
+
+describe('gradeAnswer', () => {
+  it('combines the judge scores equally', async () => {
+    const grade = await gradeAnswer(fakeZai('{"grounded": 0.9, "answered": 0.5, "reason": "Partly answered"}').zai, query, grounded, evidence)
+    expect(grade).toEqual({ score: 0.7, grounded: 0.9, answered: 0.5, reason: 'Partly answered', method: 'llm' })
+  })
+
+  it('clamps judge scores and ignores groundedness without evidence', async () => {
+    const grade = await gradeAnswer(fakeZai('Sure: {"grounded": 0.2, "answered": 1.4}').zai, query, grounded, '')
+    expect(grade).toMatchObject({ score: 1, grounded: null, answered: 1, method: 'llm' })
+  })
+
+  it('does not read a null groundedness as 0 when there is evidence', async () => {
+    const grade = await gradeAnswer(fakeZai('{"grounded": null, "answered": 1}').zai, query, grounded, evidence)
+    expect(grade.method).toBe('heuristic')
+    expect(grade.grounded).toBeGreaterThan(0.6)
+  })
+
+  it('falls back to the heuristic when the judge reply is unusable', async () => {
+    expect((await gradeAnswer(fakeZai('Looks good to me').zai, query, grounded, evidence)).method).toBe('heuristic')
+    expect((await gradeAnswer(fakeZai('{"grounded": "high", "answered": 1}').zai, query, grounded, evidence)).method).toBe('heuristic')
+
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    expect((await gradeAnswer(fakeZai(new Error('offline')).zai, query, grounded, evidence)).method).toBe('heuristic')
+  })
+})
@@ -0,0 +1,126 @@
+// Answer evaluation: after generation, an LLM judge scores how well the answer
+// is supported by the evidence the tools returned (groundedness) and whether
+// it answers the question. A lexical-overlap estimate stands in when the
+// judge's reply cannot be used.
+
+export interface AnswerGrade {
+  // Combined score (0-1) compared against the quality threshold
+  score: number
+  // Share of the answer supported by the evidence; null when there was none
+  grounded: number | null
+  answered: number
+  reason: string
+  method: 'llm' | 'heuristic'
+}
+
+const DEFAULT_QUALITY_THRESHOLD = 0.6
+const MAX_EVIDENCE_CHARS = 8000
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'with', 'this', 'that', 'from', 'have', 'has',
+  'was', 'were', 'will', 'can', 'should', 'would', 'what', 'which', 'when', 'where', 'how', 'why', 'who',
+  'our', 'their', 'there', 'these', 'those', 'they', 'them', 'into', 'about', 'also', 'more', 'most',
+  'been', 'being', 'than', 'then', 'some', 'any', 'all', 'each', 'per', 'its', 'may', 'does', 'did'
+])
+
+// Answers scoring below this trigger a retry with more evidence
+export function qualityThreshold(): number {
+  const configured = Number(process.env.ANSWER_QUALITY_THRESHOLD)
+  return Number.isFinite(configured) && configured > 0 && configured <= 1 ? configured : DEFAULT_QUALITY_THRESHOLD
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+const clamp = (value: number) => Math.min(1, Math.max(0, value))
+
+// A judge score as a number; null, booleans and blanks are unusable rather than 0
+function judgeScore(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value !== 'string' || value.trim() === '') return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function contentWords(text: string): Set<string> {
+  return new Set(
+    (text.toLowerCase().match(/[a-z0-9][a-z0-9.%-]*/g) || [])
+      .map(word => word.replace(/[.-]+$/, ''))
+      .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+  )
+}
+
+function combine(grounded: number | null, answered: number): number {
+  return round(grounded === null ? answered : 0.5 * grounded + 0.5 * answered)
+}
+
+// Word-overlap estimate: answer words found in the evidence, question words addressed by the answer
+export function heuristicGrade(query: string, answer: string, evidence: string): AnswerGrade {
+  const answerWords = contentWords(answer)
+  const queryWords = contentWords(query)
+  const evidenceWords = evidence.trim() ? contentWords(evidence) : null
+
+  const overlap = (words: Set<string>, reference: Set<string>) =>
+    words.size > 0 ? Array.from(words).filter(word => reference.has(word)).length / words.size : 0
+
+  const grounded = evidenceWords ? round(clamp(overlap(answerWords, evidenceWords) * 1.5)) : null
+  const answered = answerWords.size === 0 ? 0 : round(clamp(overlap(queryWords, answerWords) * 1.25))
+
+  return {
+    score: combine(grounded, answered),
+    grounded,
+    answered,
+    reason: 'Estimated from word overlap between the question, answer and evidence',
+    method: 'heuristic'
+  }
+}
+
+// Ask the LLM to grade the answer; falls back to the word-overlap estimate
+export async function gradeAnswer(zai: any, query: string, answer: string, evidence: string): Promise<AnswerGrade> {
+  const hasEvidence = evidence.trim().length > 0
+  const prompt = `Grade this answer from a dairy farm assistant.
+
+Question: "${query}"
+
+Answer:
+${answer}
+
+Evidence the answer should be based on:
+${hasEvidence ? evidence.slice(0, MAX_EVIDENCE_CHARS) : '(none - general knowledge answer)'}
+
+Score two things from 0 to 1:
+- grounded: how much of the answer is supported by the evidence (null if there is no evidence)
+- answered: whether the answer actually answers the question
+
+Respond with ONLY a JSON object: {"grounded": <0-1 or null>, "answered": <0-1>, "reason": "<one sentence>"}`
+
+  try {
+    const completion = await zai.chat.completions.create({
+      messages: [
+        { role: 'assistant', content: 'You are a strict answer grader. Respond with ONLY a JSON object.' },
+        { role: 'user', content: prompt }
+      ],
+      thinking: { type: 'disabled' }
+    })
+
+    const content = completion.choices[0]?.message?.content || ''
+    const jsonMatch = content.match(/\{[\s\S]*\}/)
+    if (!jsonMatch) return heuristicGrade(query, answer, evidence)
+
+    const parsed = JSON.parse(jsonMatch[0])
+    const answered = judgeScore(parsed.answered)
+    const grounded = hasEvidence ? judgeScore(parsed.grounded) : null
+    if (answered === null || (hasEvidence && grounded === null)) {
+      return heuristicGrade(query, answer, evidence)
+    }
+
+    return {
+      score: combine(grounded === null ? null : clamp(grounded), clamp(answered)),
+      grounded: grounded === null ? null : round(clamp(grounded)),
+      answered: round(clamp(answered)),
+      reason: typeof parsed.reason === 'string' ? parsed.reason : '',
+      method: 'llm'
+    }
+  } catch (error) {
+    console.error('Answer grading error:', error)
+    return heuristicGrade(query, answer, evidence)
+  }
+}
@@ -0,0 +1,544 @@
+import { db } from '@/lib/db'
+import ZAI from 'z-ai-web-dev-sdk'
+import { ChatTurn, rewriteQuery } from '@/lib/conversation-memory'
+import { RouteDecision, routeQuery } from '@/lib/query-router'
+import { AgentTool, AgentToolCategory, AgentToolContext, AgentToolOutput, availableAgentTools } from '@/lib/agent-tools'
+import { AnalysisArtifact } from '@/lib/farm-data/artifacts'
+import { AnswerGrade, gradeAnswer, qualityThreshold } from '@/lib/answer-evaluation'
+import { selectHerdTool } from '@/lib/herd/tools'
+
+export interface ChatRequest {
+  message: string
+  sessionId: string
+  documents: string[]
+  csvFiles: string[]
+}
+
+// Optional listeners used by the streaming endpoint to observe each stage
+export interface PipelineEvents {
+  onRoute?: (queryType: string, confidence: number) => void
+  onSources?: (sources: any[]) => void
+  onArtifacts?: (artifacts: AnalysisArtifact[]) => void
+  onToolCall?: (step: AgentStep) => void
+  // The first answer scored below the quality threshold and is being regenerated
+  onRetry?: (grade: AnswerGrade) => void
+  onToken?: (delta: string) => void
+}
+
+// One agent tool call, kept with the response for sources and debugging
+export interface AgentStep {
+  tool: string
+  category: AgentToolCategory
+  arguments: Record<string, string>
+  reason: string | null
+  // Tool output as given to the LLM, truncated
+  result: string
+  sourceCount: number
+  durationMs: number
+  error?: string
+}
+
+export interface QueryResult {
+  response: string
+  sources: any[]
+  artifacts: AnalysisArtifact[]
+  steps: AgentStep[]
+  evaluation: { grade: AnswerGrade; threshold: number; retried: boolean }
+  queryType: string
+  standaloneQuery: string
+  // Router's pick, which routeConfidence and routeSignals describe
+  routedType: string
+  routeConfidence: number
+  routeSignals: string[]
+}
+
+export const DEFAULT_SESSION_TITLE = 'New Conversation'
+
+// Tool calls allowed per query
+const MAX_AGENT_STEPS = 4
+// Characters of each tool result kept for the answer and shown to the planner
+const STEP_RESULT_CHARS = 6000
+const PLANNER_RESULT_CHARS = 1500
+// Passages retrieved when retrying a weak answer
+const RETRY_DOCUMENT_TOP_K = 12
+
+// Helper function to create ZAI instance with Ollama configuration
+export async function createZAIInstance() {
+  const ollamaBaseUrl = process.env.OLLAMA_BASE_URL || 'http://ollama:11434'
+  const model = process.env.OLLAMA_MODEL || 'llama3'
+
+  console.log(`Initializing ZAI with Ollama at ${ollamaBaseUrl}, model: ${model}`)
+
+  // Configure ZAI to use Ollama
+  const zai = await ZAI.create({
+    baseURL: ollamaBaseUrl,
+    model: model
+  })
+
+  return zai
+}
+
+// Run a chat completion, streaming token deltas when a token listener is attached
+async function generateCompletion(
+  zai: any,
+  body: { messages: any[]; thinking?: { type: 'enabled' | 'disabled' } },
+  events: PipelineEvents = {}
+): Promise<string> {
+  if (!events.onToken) {
+    const completion = await zai.chat.completions.create(body)
+    return completion.choices[0]?.message?.content || ''
+  }
+
+  const result = await zai.chat.completions.create({ ...body, stream: true })
+
+  // Providers that ignore `stream` return a regular completion object
+  if (!result || typeof result.getReader !== 'function') {
+    const content = result?.choices?.[0]?.message?.content || ''
+    if (content) events.onToken(content)
+    return content
+  }
+
+  return readCompletionStream(result, events.onToken)
+}
+
+// Parse an OpenAI-style SSE completion stream into the full response text
+async function readCompletionStream(
+  stream: ReadableStream<Uint8Array>,
+  onToken: (delta: string) => void
+): Promise<string> {
+  const reader = stream.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let content = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split('\n')
+    buffer = lines.pop() || ''
+
+    for (const line of lines) {
+      const trimmed = line.trim()
+      if (!trimmed.startsWith('data:')) continue
+
+      const data = trimmed.slice(5).trim()
+      if (!data || data === '[DONE]') continue
+
+      try {
+        const delta = JSON.parse(data).choices?.[0]?.delta?.content
+        if (delta) {
+          content += delta
+          onToken(delta)
+        }
+      } catch {
+        // Ignore keep-alive or partial lines
+      }
+    }
+  }
+
+  return content
+}
+
+// Save the user's message before processing starts
+export async function saveUserMessage(sessionId: string, message: string) {
+  return db.chatMessage.create({
+    data: {
+      sessionId,
+      role: 'user',
+      content: message
+    }
+  })
+}
+
+// Save the assistant response, log the query and touch the session
+export async function saveAssistantResponse(
+  sessionId: string,
+  message: string,
+  result: QueryResult,
+  documentIds: string[],
+  csvFileIds: string[],
+  startTime: number
+) {
+  const assistantMessage = await db.chatMessage.create({
+    data: {
+      sessionId,
+      role: 'assistant',
+      content: result.response,
+      sources: JSON.stringify(result.sources || []),
+      artifacts: result.artifacts.length > 0 ? JSON.stringify(result.artifacts) : null,
+      queryType: result.queryType,
+      responseTime: (Date.now() - startTime) / 1000
+    }
+  })
+
+  // Log query
+  await db.queryLog.create({
+    data: {
+      sessionId,
+      query: message,
+      rewrittenQuery: result.standaloneQuery !== message ? result.standaloneQuery : null,
+      queryType: result.queryType,
+      routedType: result.routedType,
+      routeConfidence: result.routeConfidence,
+      routeSignals: JSON.stringify(result.routeSignals),
+      agentSteps: result.steps.length > 0 ? JSON.stringify(result.steps) : null,
+      qualityScore: result.evaluation.grade.score,
+      documents: JSON.stringify(documentIds),
+      csvFile: csvFileIds.length > 0 ? csvFileIds[0] : null,
+      triggeredWebSearch: result.steps.some(step => step.category === 'web')
+    }
+  })
+
+  // Update session timestamp; only untitled sessions take the first question as title
+  const session = await db.chatSession.findUnique({ where: { id: sessionId } })
+  await db.chatSession.update({
+    where: { id: sessionId },
+    data: {
+      updatedAt: new Date(),
+      ...(!session?.title || session.title === DEFAULT_SESSION_TITLE
+        ? { title: message.slice(0, 50) + (message.length > 50 ? '...' : '') }
+        : {})
+    }
+  })
+
+  return assistantMessage
+}
+
+// Main query processing function: an agent loop where the LLM calls tools
+// until it has what it needs, then answers from the collected results.
+// Answers graded below the quality threshold get one retry with more evidence.
+export async function processQuery(
+  query: string,
+  documentIds: string[],
+  csvFileIds: string[],
+  history: ChatTurn[] = [],
+  events: PipelineEvents = {}
+): Promise<QueryResult> {
+  const zai = await createZAIInstance()
+
+  // Step 1: Turn follow-ups into standalone questions for routing and retrieval
+  const standaloneQuery = await rewriteQuery(zai, query, history)
+
+  // Step 2: The router's pick guides the agent and is its fallback when planning fails
+  const decision = await routeQuery(zai, standaloneQuery, documentIds, csvFileIds)
+  events.onRoute?.(decision.route, decision.confidence)
+
+  // Step 3: Call tools until the agent has enough to answer or hits the step limit
+  const context: AgentToolContext = { zai, documentIds, csvFileIds }
+  const tools = availableAgentTools(context)
+  const run = createToolRunner(tools, events)
+  await runAgentLoop(zai, standaloneQuery, tools, context, decision, run)
+
+  // Step 4: Answer from the tool results
+  let response = await composeAnswer(zai, standaloneQuery, run.steps, run.outputs, history, events)
+
+  // Step 5: Grade groundedness and whether the question was answered
+  const threshold = qualityThreshold()
+  let grade = await gradeAnswer(zai, standaloneQuery, response, evidenceText(run.outputs))
+  let retried = false
+
+  let sources = run.sources
+  let artifacts = run.artifacts
+
+  // Step 6: Retry a weak answer with broader document retrieval and/or the web,
+  // keeping whichever answer grades higher along with the sources it cites
+  const retryCalls = grade.score < threshold ? fallbackToolCalls(standaloneQuery, tools, run.steps, grade) : []
+  if (retryCalls.length > 0) {
+    events.onRetry?.(grade)
+    const first = { response, grade, sources: [...run.sources], artifacts: [...run.artifacts] }
+    const retryContext: AgentToolContext = { ...context, documentTopK: RETRY_DOCUMENT_TOP_K }
+    for (const call of retryCalls) await run.execute(call, retryContext)
+
+    response = await composeAnswer(zai, standaloneQuery, run.steps, run.outputs, history, events)
+    grade = await gradeAnswer(zai, standaloneQuery, response, evidenceText(run.outputs))
+    retried = true
+
+    if (grade.score < first.grade.score) {
+      response = first.response
+      grade = first.grade
+      sources = first.sources
+      artifacts = first.artifacts
+    }
+  }
+
+  return {
+    response,
+    sources,
+    artifacts,
+    steps: run.steps,
+    evaluation: { grade, threshold, retried },
+    queryType: resolveQueryType(run.steps),
+    standaloneQuery,
+    routedType: decision.route,
+    routeConfidence: decision.confidence,
+    routeSignals: decision.signals
+  }
+}
+
+interface ToolCall {
+  tool: string
+  arguments: Record<string, string>
+  reason: string | null
+}
+
+// Tool calls matching the router's decision, used as a hint and as the fallback plan
+function suggestedToolCalls(query: string, tools: AgentTool[], decision: RouteDecision): ToolCall[] {
+  const call = (name: string, argument: string): ToolCall[] =>
+    tools.some(tool => tool.name === name) ? [{ tool: name, arguments: { [argument]: query }, reason: `router: ${decision.route}` }] : []
+  const herdTool = selectHerdTool(query)
+  const herdCall = herdTool ? call(herdTool.name, 'question') : []
+
+  switch (decision.route) {
+    case 'csv_analysis':
+      return herdCall.length > 0 ? herdCall : call('query_farm_data', 'question')
+    case 'rag':
+      return call('search_documents', 'query')
+    case 'web_search':
+      return call('web_search', 'query')
+    case 'hybrid':
+      return [...call('search_documents', 'query'), ...call('web_search', 'query')]
+    default:
+      // Calculators that need no uploaded data still apply to general questions
+      return herdCall
+  }
+}
+
+// Ask the LLM for the next tool call; null when its reply is not a valid action
+async function planNextStep(
+  zai: any,
+  query: string,
+  tools: AgentTool[],
+  steps: AgentStep[],
+  suggested: ToolCall[]
+): Promise<ToolCall | 'finish' | null> {
+  const toolList = tools
+    .map(tool => `- ${tool.name}(${Object.entries(tool.parameters).map(([name, description]) => `${name}: ${description}`).join('; ')}): ${tool.description}`)
+    .join('\n')
+  const previous = steps.length > 0
+    ? steps.map((step, index) => `${index + 1}. ${step.tool}(${JSON.stringify(step.arguments)}):\n${step.result.slice(0, PLANNER_RESULT_CHARS)}`).join('\n\n')
+    : '(none yet)'
+  const hint = steps.length === 0 && suggested.length > 0
+    ? `\nSuggested first step: ${suggested.map(call => call.tool).join(' then ')}\n`
+    : ''
+
+  const prompt = `You are the planning step of a dairy farm assistant. Decide the next tool call needed to answer the question, or finish when the results so far are enough or no tool can help. Questions can need several tools, e.g. herd data first and then documents for a recommendation.
+
+Question: "${query}"
+
+Tools:
+${toolList}
+${hint}
+Results so far:
+${previous}
+
+Respond with ONLY a JSON object, either
+{"tool": "<tool name>", "arguments": {"<argument>": "<value>"}, "reason": "<why>"}
+or
+{"tool": "finish", "reason": "<why>"}`
+
+  try {
+    const completion = await zai.chat.completions.create({
+      messages: [
+        { role: 'assistant', content: 'You are a tool-using planner. Respond with ONLY a JSON object.' },
+        { role: 'user', content: prompt }
+      ],
+      thinking: { type: 'disabled' }
+    })
+
+    const content = completion.choices[0]?.message?.content || ''
+    const jsonMatch = content.match(/\{[\s\S]*\}/)
+    if (!jsonMatch) return null
+
+    const action = JSON.parse(jsonMatch[0])
+    if (action.tool === 'finish') return 'finish'
+
+    const tool = tools.find(candidate => candidate.name === action.tool)
+    if (!tool) return null
+
+    // Missing arguments default to the question itself
+    const args: Record<string, string> = {}
+    for (const name of Object.keys(tool.parameters)) {
+      const value = action.arguments?.[name]
+      args[name] = typeof value === 'string' && value.trim() ? value.trim() : query
+    }
+
+    return { tool: tool.name, arguments: args, reason: typeof action.reason === 'string' ? action.reason : null }
+  } catch (error) {
+    console.error('Agent planning error:', error)
+    return null
+  }
+}
+
+interface ToolRunner {
+  steps: AgentStep[]
+  outputs: AgentToolOutput[]
+  sources: any[]
+  artifacts: AnalysisArtifact[]
+  execute: (call: ToolCall, context: AgentToolContext) => Promise<void>
+}
+
+// Run tool calls, recording each call and its result
+function createToolRunner(tools: AgentTool[], events: PipelineEvents): ToolRunner {
+  const steps: AgentStep[] = []
+  const outputs: AgentToolOutput[] = []
+  const sources: any[] = []
+  const artifacts: AnalysisArtifact[] = []
+
+  const execute = async (call: ToolCall, context: AgentToolContext) => {
+    const tool = tools.find(candidate => candidate.name === call.tool) as AgentTool
+    const startedAt = Date.now()
+    let output: AgentToolOutput
+    let error: string | undefined
+
+    // Citation numbers continue across calls so each [n] in the answer is unique
+    const citationStart = sources.filter(source => typeof source.citation === 'number').length + 1
+    const citedChunkIds = new Set<string>(sources.filter(source => source.chunkId).map(source => source.chunkId))
+
+    try {
+      output = await tool.run(call.arguments, { ...context, citationStart, citedChunkIds })
+    } catch (toolError: any) {
+      console.error(`Agent tool ${tool.name} error:`, toolError)
+      error = toolError.message
+      output = { content: `The tool failed: ${toolError.message}`, sources: [], artifacts: [] }
+    }
+
+    const step: AgentStep = {
+      tool: tool.name,
+      category: tool.category,
+      arguments: call.arguments,
+      reason: call.reason,
+      result: output.content.slice(0, STEP_RESULT_CHARS),
+      sourceCount: output.sources.length,
+      durationMs: Date.now() - startedAt,
+      ...(error ? { error } : {})
+    }
+    steps.push(step)
+    outputs.push(output)
+    events.onToolCall?.(step)
+
+    if (output.sources.length > 0) {
+      sources.push(...output.sources.map(source => ({ ...source, tool: tool.name, step: steps.length })))
+      events.onSources?.([...sources])
+    }
+    if (output.artifacts.length > 0) {
+      artifacts.push(...output.artifacts)
+      events.onArtifacts?.([...artifacts])
+    }
+  }
+
+  return { steps, outputs, sources, artifacts, execute }
+}
+
+// Plan and run tool calls until the agent finishes or hits the step limit
+async function runAgentLoop(
+  zai: any,
+  query: string,
+  tools: AgentTool[],
+  context: AgentToolContext,
+  decision: RouteDecision,
+  run: ToolRunner
+): Promise<void> {
+  const { steps } = run
+  const suggested = suggestedToolCalls(query, tools, decision)
+
+  while (steps.length < MAX_AGENT_STEPS) {
+    const action = await planNextStep(zai, query, tools, steps, suggested)
+
+    // Without a usable plan on the first step, follow the router's choice
+    if (action === null) {
+      if (steps.length === 0) {
+        for (const call of suggested) await run.execute(call, context)
+      }
+      break
+    }
+    if (action === 'finish') break
+
+    const repeated = steps.some(step => step.tool === action.tool && JSON.stringify(step.arguments) === JSON.stringify(action.arguments))
+    if (repeated) break
+
+    await run.execute(action, context)
+  }
+}
+
+// Extra tool calls for a weak answer: wider document search, then the web if not yet searched
+function fallbackToolCalls(query: string, tools: AgentTool[], steps: AgentStep[], grade: AnswerGrade): ToolCall[] {
+  const reason = `quality retry: score ${grade.score}`
+  const available = (name: string) => tools.some(tool => tool.name === name)
+  const calls: ToolCall[] = []
+
+  if (available('search_documents')) {
+    calls.push({ tool: 'search_documents', arguments: { query }, reason })
+  }
+  if (available('web_search') && !steps.some(step => step.tool === 'web_search')) {
+    calls.push({ tool: 'web_search', arguments: { query }, reason })
+  }
+
+  return calls
+}
+
+// Tool output the answer should be grounded in
+function evidenceText(outputs: AgentToolOutput[]): string {
+  return outputs
+    .filter(output => output.sources.length > 0 || output.artifacts.length > 0)
+    .map(output => output.content.slice(0, STEP_RESULT_CHARS))
+    .join('\n\n---\n\n')
+}
+
+// Summarize which kinds of tools answered the query
+function resolveQueryType(steps: AgentStep[]): string {
+  const categories = new Set(steps.filter(step => !step.error).map(step => step.category))
+  if (categories.size === 0) return 'general'
+  if (categories.size > 1) return categories.has('farm_data') ? 'agent' : 'hybrid'
+
+  const [category] = Array.from(categories)
+  return category === 'documents' ? 'rag' : category === 'web' ? 'web_search' : 'csv_analysis'
+}
+
+// Write the final answer from the tool results, or directly when no tool was used
+async function composeAnswer(
+  zai: any,
+  query: string,
+  steps: AgentStep[],
+  outputs: AgentToolOutput[],
+  history: ChatTurn[],
+  events: PipelineEvents
+): Promise<string> {
+  if (steps.length === 0) {
+    const content = await generateCompletion(zai, {
+      messages: [
+        {
+          role: 'assistant',
+          content: 'You are a helpful Smart Dairy AI assistant specializing in dairy farming. Provide helpful, accurate information about dairy operations, breeding, nutrition, management, and best practices.'
+        },
+        ...history,
+        { role: 'user', content: query }
+      ],
+      thinking: { type: 'disabled' }
+    }, events)
+
+    return content || 'I could not generate a response.'
+  }
+
+  const results = steps
+    .map((step, index) => `### ${index + 1}. ${step.tool}(${JSON.stringify(step.arguments)})\n${outputs[index].content.slice(0, STEP_RESULT_CHARS)}`)
+    .join('\n\n')
+
+  const content = await generateCompletion(zai, {
+    messages: [
+      {
+        role: 'assistant',
+        content: 'You are a Smart Dairy AI assistant specializing in dairy farming. Answer using the tool results provided. Figures computed from farm data and herd records are exact. Document passages and web results are numbered like [3]: cite them inline with that number right after the statement they support, e.g. "Dry cows need 60 days of rest [2]." Only use numbers that appear in the results. If the results are insufficient, acknowledge this limitation.'
+      },
+      ...history,
+      {
+        role: 'user',
+        content: `Tool results:\n\n${results}\n\nQuestion: ${query}\n\nProvide a clear, practical answer for a dairy farmer based on these results.`
+      }
+    ],
+    thinking: { type: 'disabled' }
+  }, events)
+
+  return content || outputs.map(output => output.content).join('\n\n')
+}
@@ -0,0 +1,94 @@
+import { db } from '@/lib/db'
+
+// Conversation memory: prior ChatMessages are fed back to the LLM inside a
+// token budget, and follow-up questions are rewritten into standalone
+// queries for routing and retrieval.
+
+export interface ChatTurn {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+const DEFAULT_HISTORY_TOKENS = 1500
+const MAX_TURN_CHARS = 2000
+
+// Rough token estimate (~4 characters per token for English text)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+// Load the most recent turns of a session that fit within the token budget
+export async function loadConversationHistory(
+  sessionId: string,
+  maxTokens: number = Number(process.env.CHAT_HISTORY_TOKENS) || DEFAULT_HISTORY_TOKENS
+): Promise<ChatTurn[]> {
+  const messages = await db.chatMessage.findMany({
+    where: {
+      sessionId,
+      role: { in: ['user', 'assistant'] }
+    },
+    orderBy: { createdAt: 'desc' },
+    take: 50
+  })
+
+  const turns: ChatTurn[] = []
+  let usedTokens = 0
+
+  for (const message of messages) {
+    const content = message.content.length > MAX_TURN_CHARS
+      ? message.content.slice(0, MAX_TURN_CHARS) + '...'
+      : message.content
+    const tokens = estimateTokens(content)
+
+    if (usedTokens + tokens > maxTokens) break
+
+    usedTokens += tokens
+    turns.unshift({ role: message.role as ChatTurn['role'], content })
+  }
+
+  // Never start the window with a dangling assistant reply
+  while (turns.length > 0 && turns[0].role !== 'user') {
+    turns.shift()
+  }
+
+  return turns
+}
+
+// Rewrite a follow-up question into a standalone query using the conversation
+export async function rewriteQuery(zai: any, query: string, history: ChatTurn[]): Promise<string> {
+  if (history.length === 0) return query
+
+  const transcript = history
+    .slice(-6)
+    .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content.slice(0, 500)}`)
+    .join('\n')
+
+  const prompt = `Given the conversation below, rewrite the follow-up question as a standalone question that can be understood without the conversation. Keep dairy-specific terms, animal groups, time periods and numbers. If the question is already standalone, return it unchanged.
+
+Conversation:
+${transcript}
+
+Follow-up question: "${query}"
+
+Respond with ONLY the standalone question.`
+
+  try {
+    const completion = await zai.chat.completions.create({
+      messages: [
+        { role: 'assistant', content: 'You are a query rewriting assistant. Respond with ONLY the rewritten question.' },
+        { role: 'user', content: prompt }
+      ],
+      thinking: { type: 'disabled' }
+    })
+
+    const rewritten = (completion.choices[0]?.message?.content || '')
+      .trim()
+      .replace(/^["']|["']$/g, '')
+
+    if (!rewritten || rewritten.length > 500) return query
+    return rewritten
+  } catch (error) {
+    console.error('Query rewrite error:', error)
+    return query
+  }
+}
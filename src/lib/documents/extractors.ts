@@ -0,0 +1,349 @@
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+import { readFile } from 'fs/promises'
+import type { DocumentFormat } from '@/lib/documents/formats'
+
+// Text extraction for the non-PDF formats. Each extractor returns sections
+// that keep the document's structure: Word, HTML and Markdown files are split
+// at their headings, PowerPoint decks into one section per slide. Office files
+// are zip archives of XML, read with the Python standard library.
+
+const execFileAsync = promisify(execFile)
+
+// A run of document text with where it sits in the document
+export interface DocumentSection {
+  text: string
+  // 1-based PDF page
+  page?: number
+  // 1-based slide number and the slide's title
+  slide?: number
+  slideTitle?: string
+  // Titles of the headings this section sits under, outermost first
+  headings?: string[]
+  method?: 'text' | 'ocr'
+  // Tesseract mean word confidence (0-100) for OCR pages
+  ocrConfidence?: number | null
+}
+
+// A paragraph, list item or table row; level is set for headings
+interface TextBlock {
+  text: string
+  level: number | null
+}
+
+// Paragraphs and table rows of word/document.xml in order; heading levels come
+// from the paragraph's outline level or its style (built-in "heading N" and "Title")
+const DOCX_SCRIPT = String.raw`
+import sys, json, zipfile
+import xml.etree.ElementTree as ET
+
+W = '{http://schemas.openxmlformats.org/wordprocessingml/2006/main}'
+archive = zipfile.ZipFile(sys.argv[1])
+
+def outline_level(ppr):
+    outline = ppr.find(W + 'outlineLvl') if ppr is not None else None
+    if outline is None:
+        return None
+    level = int(outline.get(W + 'val', '9'))
+    return level + 1 if level < 9 else None
+
+styles = {}
+if 'word/styles.xml' in archive.namelist():
+    for style in ET.fromstring(archive.read('word/styles.xml')).iter(W + 'style'):
+        name_node = style.find(W + 'name')
+        name = (name_node.get(W + 'val', '') if name_node is not None else '').lower()
+        level = outline_level(style.find(W + 'pPr'))
+        if level is None and name.startswith('heading ') and name[8:].isdigit():
+            level = int(name[8:])
+        if level is None and name == 'title':
+            level = 1
+        if level:
+            styles[style.get(W + 'styleId')] = level
+
+def paragraph_text(paragraph):
+    parts = []
+    for node in paragraph.iter():
+        if node.tag == W + 't':
+            parts.append(node.text or '')
+        elif node.tag == W + 'tab':
+            parts.append('\t')
+        elif node.tag in (W + 'br', W + 'cr'):
+            parts.append('\n')
+    return ''.join(parts).strip()
+
+blocks = []
+
+def walk(container):
+    for child in container:
+        if child.tag == W + 'p':
+            text = paragraph_text(child)
+            if not text:
+                continue
+            ppr = child.find(W + 'pPr')
+            level = outline_level(ppr)
+            style = ppr.find(W + 'pStyle') if ppr is not None else None
+            if level is None and style is not None:
+                level = styles.get(style.get(W + 'val'))
+            if level is None and ppr is not None and ppr.find(W + 'numPr') is not None:
+                text = '- ' + text
+            blocks.append({'text': text, 'level': level})
+        elif child.tag == W + 'tbl':
+            for row in child.iter(W + 'tr'):
+                cells = [' '.join(filter(None, (paragraph_text(p) for p in cell.iter(W + 'p')))) for cell in row.findall(W + 'tc')]
+                if any(cells):
+                    blocks.append({'text': ' | '.join(cells), 'level': None})
+        elif child.tag == W + 'sdt':
+            content = child.find(W + 'sdtContent')
+            if content is not None:
+                walk(content)
+
+walk(ET.fromstring(archive.read('word/document.xml')).find(W + 'body'))
+print(json.dumps(blocks))
+`
+
+// Slides in presentation order with the title placeholder, the other text
+// shapes and tables, and the speaker notes
+const PPTX_SCRIPT = String.raw`
+import sys, json, zipfile, posixpath
+import xml.etree.ElementTree as ET
+
+P = '{http://schemas.openxmlformats.org/presentationml/2006/main}'
+A = '{http://schemas.openxmlformats.org/drawingml/2006/main}'
+R = '{http://schemas.openxmlformats.org/officeDocument/2006/relationships}'
+REL = '{http://schemas.openxmlformats.org/package/2006/relationships}'
+archive = zipfile.ZipFile(sys.argv[1])
+names = set(archive.namelist())
+
+def relationships(part):
+    folder = posixpath.dirname(part)
+    rels = posixpath.join(folder, '_rels', posixpath.basename(part) + '.rels')
+    if rels not in names:
+        return {}
+    return {
+        rel.get('Id'): (rel.get('Type', ''), posixpath.normpath(posixpath.join(folder, rel.get('Target', ''))))
+        for rel in ET.fromstring(archive.read(rels)).iter(REL + 'Relationship')
+    }
+
+def lines(element):
+    result = []
+    for paragraph in element.iter(A + 'p'):
+        text = ''.join((node.text or '') if node.tag == A + 't' else '\n' for node in paragraph.iter() if node.tag in (A + 't', A + 'br')).strip()
+        if text:
+            result.append(text)
+    return result
+
+def placeholder_type(shape):
+    placeholder = shape.find(P + 'nvSpPr/' + P + 'nvPr/' + P + 'ph')
+    return placeholder.get('type', 'body') if placeholder is not None else None
+
+def slide(part):
+    root = ET.fromstring(archive.read(part))
+    title, body, notes = [], [], []
+    for shape in root.iter(P + 'sp'):
+        (title if placeholder_type(shape) in ('title', 'ctrTitle') else body).extend(lines(shape))
+    for frame in root.iter(P + 'graphicFrame'):
+        for row in frame.iter(A + 'tr'):
+            cells = [' '.join(lines(cell)) for cell in row.findall(A + 'tc')]
+            if any(cells):
+                body.append(' | '.join(cells))
+    for kind, target in relationships(part).values():
+        if kind.endswith('/notesSlide') and target in names:
+            for shape in ET.fromstring(archive.read(target)).iter(P + 'sp'):
+                if placeholder_type(shape) == 'body':
+                    notes.extend(lines(shape))
+    return {'title': ' '.join(title), 'body': body, 'notes': notes}
+
+presentation = 'ppt/presentation.xml'
+rels = relationships(presentation)
+slides = [
+    slide(rels[entry.get(R + 'id')][1])
+    for entry in ET.fromstring(archive.read(presentation)).iter(P + 'sldId')
+    if entry.get(R + 'id') in rels and rels[entry.get(R + 'id')][1] in names
+]
+print(json.dumps(slides))
+`
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—',
+  hellip: '…', deg: '°', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', bull: '•', times: '×'
+}
+
+async function runPythonScript(script: string, filePath: string): Promise<any> {
+  const { stdout } = await execFileAsync('python3', ['-c', script, filePath], { maxBuffer: 64 * 1024 * 1024 })
+  return JSON.parse(stdout)
+}
+
+async function readTextFile(filePath: string): Promise<string> {
+  return (await readFile(filePath, 'utf8')).replace(/^\uFEFF/, '')
+}
+
+// Group blocks under their headings; each heading starts a new section
+function sectionsFromBlocks(blocks: TextBlock[]): DocumentSection[] {
+  const sections: DocumentSection[] = []
+  const path: { level: number; title: string }[] = []
+  let lines: string[] = []
+
+  const flush = () => {
+    const text = lines.join('\n').trim()
+    if (text) sections.push({ text, headings: path.map(({ title }) => title) })
+    lines = []
+  }
+
+  for (const block of blocks) {
+    if (block.level) {
+      flush()
+      while (path.length > 0 && path[path.length - 1].level >= block.level) path.pop()
+      const title = block.text.replace(/\s+/g, ' ').trim()
+      path.push({ level: block.level, title })
+    }
+    lines.push(block.text)
+  }
+  flush()
+
+  return sections
+}
+
+async function extractDocx(filePath: string): Promise<DocumentSection[]> {
+  return sectionsFromBlocks(await runPythonScript(DOCX_SCRIPT, filePath))
+}
+
+async function extractPptx(filePath: string): Promise<DocumentSection[]> {
+  const slides: { title: string; body: string[]; notes: string[] }[] = await runPythonScript(PPTX_SCRIPT, filePath)
+
+  return slides
+    .map((slide, index) => ({
+      text: [
+        slide.title,
+        ...slide.body,
+        ...(slide.notes.length > 0 ? ['Speaker notes:', ...slide.notes] : [])
+      ].filter(Boolean).join('\n'),
+      slide: index + 1,
+      ...(slide.title ? { slideTitle: slide.title } : {})
+    }))
+    .filter(section => section.text.trim().length > 0)
+}
+
+function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10)
+      return Number.isFinite(value) && value <= 0x10ffff ? String.fromCodePoint(value) : entity
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity
+  })
+}
+
+// Plain text of an HTML fragment with block elements on their own lines
+function htmlToText(html: string): string {
+  return decodeHtmlEntities(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<li\b[^>]*>/gi, '\n- ')
+      .replace(/<\/t[dh]>/gi, ' | ')
+      .replace(/<\/?(p|div|section|article|main|header|footer|aside|ul|ol|dl|dt|dd|tr|table|blockquote|pre|figure|figcaption|h[1-6])\b[^>]*>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').replace(/\s*\|\s*$/, '').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+async function extractHtml(filePath: string): Promise<DocumentSection[]> {
+  const html = (await readTextFile(filePath))
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(head|script|style|noscript|template|svg)\b[\s\S]*?<\/\1>/gi, '')
+
+  const blocks: TextBlock[] = []
+  const pushText = (fragment: string) => {
+    const text = htmlToText(fragment)
+    if (text) blocks.push({ text, level: null })
+  }
+
+  let last = 0
+  for (const match of html.matchAll(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi)) {
+    pushText(html.slice(last, match.index))
+    const title = htmlToText(match[2]).replace(/\s+/g, ' ')
+    if (title) blocks.push({ text: title, level: Number(match[1]) })
+    last = match.index + match[0].length
+  }
+  pushText(html.slice(last))
+
+  return sectionsFromBlocks(blocks)
+}
+
+// ATX (# Heading) and setext (underlined) headings outside fenced code blocks
+async function extractMarkdown(filePath: string): Promise<DocumentSection[]> {
+  const lines = (await readTextFile(filePath))
+    .replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n/, '')
+    .split(/\r?\n/)
+
+  const blocks: TextBlock[] = []
+  let paragraph: string[] = []
+  let fence: string | null = null
+
+  const flush = () => {
+    const text = paragraph.join('\n').trim()
+    if (text) blocks.push({ text, level: null })
+    paragraph = []
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+    const fenceMatch = line.match(/^ {0,3}(`{3,}|~{3,})/)
+    // A fenced code block is one block of its own
+    if (fenceMatch && (!fence || fenceMatch[1][0] === fence)) {
+      if (fence) {
+        paragraph.push(line)
+        flush()
+        fence = null
+      } else {
+        flush()
+        paragraph.push(line)
+        fence = fenceMatch[1][0]
+      }
+      continue
+    }
+    if (fence) {
+      paragraph.push(line)
+      continue
+    }
+
+    const atx = line.match(/^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/)
+    const setext = paragraph.length === 0 && line.trim() && lines[i + 1]?.match(/^ {0,3}(=+|-+)\s*$/)
+    if (atx) {
+      flush()
+      blocks.push({ text: atx[2], level: atx[1].length })
+    } else if (setext) {
+      flush()
+      blocks.push({ text: line.trim(), level: setext[1][0] === '=' ? 1 : 2 })
+      i++
+    } else if (!line.trim()) {
+      flush()
+    } else {
+      paragraph.push(line)
+    }
+  }
+  flush()
+
+  return sectionsFromBlocks(blocks)
+}
+
+async function extractPlainText(filePath: string): Promise<DocumentSection[]> {
+  const text = (await readTextFile(filePath)).replace(/\r\n?/g, '\n')
+  return text.trim() ? [{ text }] : []
+}
+
+const EXTRACTORS: Record<Exclude<DocumentFormat, 'pdf'>, (filePath: string) => Promise<DocumentSection[]>> = {
+  docx: extractDocx,
+  pptx: extractPptx,
+  html: extractHtml,
+  markdown: extractMarkdown,
+  text: extractPlainText
+}
+
+// Sections of a stored non-PDF document; PDFs go through page extraction and OCR
+export async function extractSections(format: Exclude<DocumentFormat, 'pdf'>, filePath: string): Promise<DocumentSection[]> {
+  return EXTRACTORS[format](filePath)
+}
@@ -0,0 +1,37 @@
+// Document formats accepted for upload. Browsers often send no MIME type for
+// Markdown and some Office files, so the extension decides and the stored
+// fileType is the canonical MIME type for the format.
+
+export type DocumentFormat = 'pdf' | 'docx' | 'pptx' | 'html' | 'markdown' | 'text'
+
+const DOCUMENT_FORMATS: { format: DocumentFormat; extensions: string[]; mimeType: string; label: string }[] = [
+  { format: 'pdf', extensions: ['.pdf'], mimeType: 'application/pdf', label: 'PDF' },
+  {
+    format: 'docx',
+    extensions: ['.docx'],
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    label: 'Word'
+  },
+  {
+    format: 'pptx',
+    extensions: ['.pptx'],
+    mimeType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    label: 'PowerPoint'
+  },
+  { format: 'html', extensions: ['.html', '.htm'], mimeType: 'text/html', label: 'HTML' },
+  { format: 'markdown', extensions: ['.md', '.markdown'], mimeType: 'text/markdown', label: 'Markdown' },
+  { format: 'text', extensions: ['.txt'], mimeType: 'text/plain', label: 'text' }
+]
+
+// For file input `accept` attributes
+export const DOCUMENT_ACCEPT = DOCUMENT_FORMATS.flatMap(({ extensions }) => extensions).join(',')
+
+export const SUPPORTED_FORMATS_LABEL = DOCUMENT_FORMATS.map(({ label }) => label).join(', ')
+
+// Format of an uploaded or stored file; null when it is not supported
+export function detectDocumentFormat(fileName: string, mimeType?: string | null): { format: DocumentFormat; mimeType: string } | null {
+  const name = fileName.toLowerCase()
+  const match = DOCUMENT_FORMATS.find(({ extensions }) => extensions.some(extension => name.endsWith(extension))) ??
+    DOCUMENT_FORMATS.find(candidate => !!mimeType && candidate.mimeType === mimeType)
+  return match ? { format: match.format, mimeType: match.mimeType } : null
+}
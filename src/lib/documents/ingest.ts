@@ -0,0 +1,284 @@
+import { db } from '@/lib/db'
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+import { indexChunks } from '@/lib/vector-index'
+import { indexChunksLexical, removeDocumentLexical } from '@/lib/lexical-index'
+import { ocrMinConfidence, ocrPdfPage } from '@/lib/documents/ocr'
+import { extractSections, type DocumentSection } from '@/lib/documents/extractors'
+import { detectDocumentFormat } from '@/lib/documents/formats'
+
+// Document ingestion, run by the ingestion queue: text extraction by format
+// (PDF pages with OCR for scanned ones, slides, heading sections), overlapping
+// chunks tagged with where they sit in the document, and batched chunk inserts
+// that are added to the BM25 and vector indexes as they go.
+
+const execFileAsync = promisify(execFile)
+
+const CHUNK_SIZE = 1000
+const CHUNK_OVERLAP = 200
+// Chunks inserted and indexed per batch
+const CHUNK_BATCH_SIZE = 100
+// Pages with images and fewer characters of text than this are treated as scanned
+const MIN_PAGE_TEXT_CHARS = 20
+
+export interface DocumentIngestResult {
+  format: string
+  sectionCount: number
+  chunkCount: number
+  ocrPages: number
+  ocrConfidence: number | null
+  // Some chunks could not be embedded and are left for the backfill job
+  embeddingsPending: boolean
+  warning?: string
+}
+
+export type IngestProgress = (progress: number, stage: string) => Promise<void>
+
+// Extract text page by page with pypdf so chunks can cite their pages, with
+// the number of images on each page to tell scanned pages from blank ones
+async function extractPdfPages(filePath: string): Promise<{ text: string; images: number }[]> {
+  const pythonScript = `
+import sys, json
+from pypdf import PdfReader
+
+def image_count(page):
+    try:
+        return len(page.images)
+    except Exception:
+        return 0
+
+reader = PdfReader(sys.argv[1])
+print(json.dumps([{"text": page.extract_text() or "", "images": image_count(page)} for page in reader.pages]))
+`
+
+  // The path is passed as an argument, never through a shell
+  const { stdout } = await execFileAsync('python3', ['-c', pythonScript, filePath], { maxBuffer: 64 * 1024 * 1024 })
+  return JSON.parse(stdout)
+}
+
+// Page numbers as a short list, e.g. "2, 5-7"
+function formatPageList(pageNumbers: number[]): string {
+  const ranges: string[] = []
+  for (let i = 0; i < pageNumbers.length; i++) {
+    let end = i
+    while (end + 1 < pageNumbers.length && pageNumbers[end + 1] === pageNumbers[end] + 1) end++
+    ranges.push(end > i ? `${pageNumbers[i]}-${pageNumbers[end]}` : String(pageNumbers[i]))
+    i = end
+  }
+  return ranges.join(', ')
+}
+
+// OCR the pages that have images but no text layer, keeping pypdf's text for the rest
+async function extractPdfSections(
+  filePath: string,
+  onProgress: IngestProgress
+): Promise<{ sections: DocumentSection[]; warnings: string[] }> {
+  const rawPages = await extractPdfPages(filePath)
+  const pages: DocumentSection[] = rawPages.map((page, index) => ({ text: page.text, page: index + 1, method: 'text' }))
+  const scanned = rawPages
+    .map((page, index) => ({ page, index }))
+    .filter(({ page }) => page.images > 0 && page.text.replace(/\s/g, '').length < MIN_PAGE_TEXT_CHARS)
+    .map(({ index }) => index)
+
+  const failed: number[] = []
+  let firstError = ''
+  for (const [done, index] of scanned.entries()) {
+    await onProgress(0.05 + 0.45 * (done / scanned.length), `Running OCR on page ${index + 1} (${done + 1}/${scanned.length})`)
+    try {
+      const result = await ocrPdfPage(filePath, index + 1)
+      pages[index] = { text: result.text, page: index + 1, method: 'ocr', ocrConfidence: result.confidence }
+    } catch (error: any) {
+      console.error(`OCR error on page ${index + 1}:`, error)
+      failed.push(index + 1)
+      firstError ||= error?.code === 'ENOENT'
+        ? 'OCR tools not installed (needs tesseract and pdftoppm)'
+        : error?.message || String(error)
+    }
+  }
+
+  const warnings: string[] = []
+  if (failed.length > 0) {
+    warnings.push(`OCR failed on scanned page${failed.length > 1 ? 's' : ''} ${formatPageList(failed)}: ${firstError}`)
+  }
+
+  const threshold = ocrMinConfidence()
+  const lowConfidence = pages
+    .map((page, index) => ({ page, number: index + 1 }))
+    .filter(({ page }) => page.method === 'ocr' && (page.ocrConfidence ?? 0) < threshold)
+  if (lowConfidence.length > 0) {
+    warnings.push(
+      `Low OCR confidence on page${lowConfidence.length > 1 ? 's' : ''} ${formatPageList(lowConfidence.map(({ number }) => number))}; ` +
+      'answers citing them may contain misread text'
+    )
+  }
+
+  return { sections: pages, warnings }
+}
+
+// Index of the section containing a character offset
+function sectionAt(sectionStarts: number[], offset: number): number {
+  let section = 0
+  while (section + 1 < sectionStarts.length && sectionStarts[section + 1] <= offset) section++
+  return section
+}
+
+// Create text chunks with overlap, keeping each chunk's offsets in the text
+function createTextChunks(text: string, chunkSize: number, overlap: number): { content: string; start: number; end: number }[] {
+  const chunks: { content: string; start: number; end: number }[] = []
+  let start = 0
+
+  while (start < text.length) {
+    const end = Math.min(start + chunkSize, text.length)
+    let chunk = text.slice(start, end)
+
+    // Try to break at sentence boundaries
+    if (end < text.length) {
+      const lastPeriod = chunk.lastIndexOf('.')
+      const lastNewline = chunk.lastIndexOf('\n')
+      const breakPoint = Math.max(lastPeriod, lastNewline)
+
+      if (breakPoint > chunkSize * 0.5) {
+        chunk = chunk.slice(0, breakPoint + 1)
+      }
+    }
+
+    const leading = chunk.length - chunk.trimStart().length
+    const content = chunk.trim()
+    chunks.push({ content, start: start + leading, end: start + leading + content.length })
+
+    // Stepping back by the overlap from the last chunk would never reach the end
+    if (end >= text.length) break
+    start += chunk.length - overlap
+  }
+
+  return chunks.filter(chunk => chunk.content.length > 50)
+}
+
+// Where a chunk sits: its page range and how those pages were read for PDFs
+// (OCR chunks keep their lowest page confidence), its slide range for decks,
+// and the headings over the section it starts in
+function chunkMetadata(
+  chunk: { content: string; start: number; end: number },
+  totalChunks: number,
+  sections: DocumentSection[],
+  sectionStarts: number[]
+) {
+  const first = sectionAt(sectionStarts, chunk.start)
+  const covered = sections.slice(first, sectionAt(sectionStarts, chunk.end - 1) + 1)
+  const metadata: Record<string, unknown> = { chunkSize: chunk.content.length, totalChunks }
+
+  if (typeof covered[0].page === 'number') {
+    const methods = new Set(covered.map(section => section.method ?? 'text'))
+    const ocrPages = covered.filter(section => section.method === 'ocr').map(section => section.page)
+    const confidences = covered
+      .filter(section => section.method === 'ocr' && typeof section.ocrConfidence === 'number')
+      .map(section => section.ocrConfidence as number)
+
+    Object.assign(metadata, {
+      pageStart: covered[0].page,
+      pageEnd: covered[covered.length - 1].page,
+      extraction: methods.size > 1 ? 'mixed' : [...methods][0],
+      ...(ocrPages.length > 0 ? { ocrPages, ocrConfidence: confidences.length > 0 ? Math.min(...confidences) : null } : {})
+    })
+  }
+  if (typeof covered[0].slide === 'number') {
+    Object.assign(metadata, {
+      slideStart: covered[0].slide,
+      slideEnd: covered[covered.length - 1].slide,
+      ...(covered[0].slideTitle ? { slideTitle: covered[0].slideTitle } : {})
+    })
+  }
+  if (covered[0].headings && covered[0].headings.length > 0) {
+    metadata.headings = covered[0].headings
+  }
+
+  return metadata
+}
+
+// Extract, chunk and index a stored document, replacing chunks from any earlier attempt
+export async function ingestDocument(
+  documentId: string,
+  onProgress: IngestProgress = async () => {}
+): Promise<DocumentIngestResult> {
+  const document = await db.document.findUnique({ where: { id: documentId } })
+  if (!document) throw new Error('Document not found')
+
+  const detected = detectDocumentFormat(document.fileName, document.fileType)
+  if (!detected) throw new Error(`Unsupported document type: ${document.fileType || document.fileName}`)
+
+  await onProgress(0.05, 'Extracting text')
+  const { sections, warnings } = detected.format === 'pdf'
+    ? await extractPdfSections(document.filePath, onProgress)
+    : { sections: await extractSections(detected.format, document.filePath), warnings: [] as string[] }
+
+  // Character offset where each section starts in the joined text
+  const sectionStarts: number[] = []
+  let offset = 0
+  for (const section of sections) {
+    sectionStarts.push(offset)
+    offset += section.text.length + 1
+  }
+  const text = sections.map(section => section.text).join('\n')
+
+  const ocrConfidences = sections
+    .filter(section => section.method === 'ocr' && typeof section.ocrConfidence === 'number')
+    .map(section => section.ocrConfidence as number)
+  const summary = {
+    format: detected.format,
+    sectionCount: sections.length,
+    ocrPages: sections.filter(section => section.method === 'ocr').length,
+    ocrConfidence: ocrConfidences.length > 0
+      ? Math.round(ocrConfidences.reduce((sum, value) => sum + value, 0) / ocrConfidences.length)
+      : null
+  }
+
+  await removeDocumentLexical(documentId)
+  await db.documentChunk.deleteMany({ where: { documentId } })
+
+  if (text.trim().length < 100) {
+    console.log(`No significant text extracted from ${document.fileName}`)
+    const warning = [...warnings, 'No significant text could be extracted'].join('. ')
+    await db.document.update({
+      where: { id: documentId },
+      data: { processedAt: new Date(), ocrPages: summary.ocrPages, ocrConfidence: summary.ocrConfidence, extractionWarning: warning }
+    })
+    return { ...summary, chunkCount: 0, embeddingsPending: false, warning }
+  }
+
+  const chunks = createTextChunks(text, CHUNK_SIZE, CHUNK_OVERLAP)
+  let embeddingsPending = false
+  const indexStart = summary.ocrPages > 0 || warnings.length > 0 ? 0.5 : 0.1
+
+  for (let start = 0; start < chunks.length; start += CHUNK_BATCH_SIZE) {
+    await onProgress(indexStart + (1 - indexStart) * (start / chunks.length), `Indexing chunks ${start}/${chunks.length}`)
+
+    const savedChunks: { id: string; documentId: string; content: string }[] = await db.documentChunk.createManyAndReturn({
+      data: chunks.slice(start, start + CHUNK_BATCH_SIZE).map((chunk, index) => ({
+        documentId,
+        chunkIndex: start + index,
+        content: chunk.content,
+        metadata: JSON.stringify(chunkMetadata(chunk, chunks.length, sections, sectionStarts))
+      })),
+      select: { id: true, documentId: true, content: true }
+    })
+
+    // Add chunks to the BM25 index; searches never index, so a failure fails the job and it is retried
+    await indexChunksLexical(savedChunks)
+
+    // Embed chunks into the vector index; the queue backfills them later if this fails
+    try {
+      await indexChunks(savedChunks)
+    } catch (error: any) {
+      console.error('Embedding error:', error)
+      embeddingsPending = true
+    }
+  }
+
+  const warning = warnings.length > 0 ? warnings.join('. ') : undefined
+  await db.document.update({
+    where: { id: documentId },
+    data: { processedAt: new Date(), ocrPages: summary.ocrPages, ocrConfidence: summary.ocrConfidence, extractionWarning: warning ?? null }
+  })
+
+  return { ...summary, chunkCount: chunks.length, embeddingsPending, ...(warning ? { warning } : {}) }
+}
@@ -0,0 +1,95 @@
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+// OCR for scanned PDF pages with local tools: poppler's pdftoppm renders the
+// page to an image and Tesseract reads it back as TSV, which carries a
+// confidence (0-100) for every recognised word.
+
+const execFileAsync = promisify(execFile)
+
+// Render resolution; Tesseract is most accurate around 300 DPI
+const OCR_DPI = 300
+const DEFAULT_OCR_LANGUAGE = 'eng'
+const DEFAULT_OCR_MIN_CONFIDENCE = 70
+
+export interface OcrPageResult {
+  text: string
+  // Mean word confidence, 0-100; null when no words were recognised
+  confidence: number | null
+}
+
+// Pages whose mean confidence is below this get a warning on the document
+export function ocrMinConfidence(): number {
+  const configured = Number(process.env.OCR_MIN_CONFIDENCE)
+  return Number.isFinite(configured) && configured > 0 && configured <= 100 ? configured : DEFAULT_OCR_MIN_CONFIDENCE
+}
+
+// Rebuild text from Tesseract TSV, keeping its line and paragraph breaks
+function parseTesseractTsv(tsv: string): OcrPageResult {
+  const lines: string[] = []
+  const confidences: number[] = []
+  let currentKey = ''
+  let currentParagraph = ''
+  let words: string[] = []
+
+  for (const row of tsv.split('\n').slice(1)) {
+    const columns = row.split('\t')
+    if (columns.length < 12) continue
+
+    const [level, , block, paragraph, line] = columns
+    const confidence = Number(columns[10])
+    const word = columns.slice(11).join('\t').trim()
+    // Level 5 rows are words; a confidence of -1 marks layout rows
+    if (level !== '5' || !word || confidence < 0) continue
+
+    const paragraphKey = `${block}.${paragraph}`
+    const key = `${paragraphKey}.${line}`
+    if (key !== currentKey) {
+      if (words.length > 0) lines.push(words.join(' '))
+      if (currentParagraph && paragraphKey !== currentParagraph) lines.push('')
+      currentKey = key
+      currentParagraph = paragraphKey
+      words = []
+    }
+    words.push(word)
+    confidences.push(confidence)
+  }
+  if (words.length > 0) lines.push(words.join(' '))
+
+  return {
+    text: lines.join('\n'),
+    confidence: confidences.length > 0
+      ? Math.round(confidences.reduce((sum, value) => sum + value, 0) / confidences.length)
+      : null
+  }
+}
+
+// Render one page (1-based) and run it through Tesseract
+export async function ocrPdfPage(filePath: string, pageNumber: number): Promise<OcrPageResult> {
+  const workDir = await mkdtemp(join(tmpdir(), 'ocr-'))
+  try {
+    const imagePrefix = join(workDir, 'page')
+    await execFileAsync('pdftoppm', [
+      '-f', String(pageNumber),
+      '-l', String(pageNumber),
+      '-r', String(OCR_DPI),
+      '-gray',
+      '-png',
+      '-singlefile',
+      filePath,
+      imagePrefix
+    ])
+
+    const { stdout } = await execFileAsync(
+      'tesseract',
+      [`${imagePrefix}.png`, 'stdout', '-l', process.env.OCR_LANGUAGE || DEFAULT_OCR_LANGUAGE, 'tsv'],
+      { maxBuffer: 16 * 1024 * 1024 }
+    )
+    return parseTesseractTsv(stdout)
+  } finally {
+    await rm(workDir, { recursive: true, force: true })
+  }
+}
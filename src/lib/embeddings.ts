@@ -0,0 +1,103 @@
+// Embedding providers for semantic retrieval.
+// The default provider talks to the same Ollama instance the chat route uses
+// (OLLAMA_BASE_URL); an OpenAI-compatible endpoint can be used instead by
+// setting EMBEDDING_PROVIDER=openai.
+
+export interface EmbeddingProvider {
+  name: string
+  model: string
+  embed(texts: string[]): Promise<number[][]>
+}
+
+const DEFAULT_BATCH_SIZE = 32
+
+// Ollama /api/embed provider
+function createOllamaProvider(baseUrl: string, model: string): EmbeddingProvider {
+  return {
+    name: 'ollama',
+    model,
+    async embed(texts: string[]) {
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}/api/embed`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model, input: texts })
+      })
+
+      if (!response.ok) {
+        const errorBody = await response.text()
+        throw new Error(`Ollama embedding request failed with status ${response.status}: ${errorBody}`)
+      }
+
+      const data = await response.json()
+      return data.embeddings || []
+    }
+  }
+}
+
+// OpenAI-compatible /embeddings provider
+function createOpenAICompatibleProvider(baseUrl: string, model: string, apiKey?: string): EmbeddingProvider {
+  return {
+    name: 'openai',
+    model,
+    async embed(texts: string[]) {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+      if (apiKey) {
+        headers['Authorization'] = `Bearer ${apiKey}`
+      }
+
+      const response = await fetch(`${baseUrl.replace(/\/$/, '')}/embeddings`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ model, input: texts })
+      })
+
+      if (!response.ok) {
+        const errorBody = await response.text()
+        throw new Error(`Embedding request failed with status ${response.status}: ${errorBody}`)
+      }
+
+      const data = await response.json()
+      return (data.data || [])
+        .sort((a: any, b: any) => a.index - b.index)
+        .map((item: any) => item.embedding)
+    }
+  }
+}
+
+// Resolve the embedding provider from environment configuration
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const providerName = process.env.EMBEDDING_PROVIDER || 'ollama'
+  const baseUrl = process.env.EMBEDDING_BASE_URL || process.env.OLLAMA_BASE_URL || 'http://ollama:11434'
+  const model = process.env.EMBEDDING_MODEL || 'nomic-embed-text'
+
+  switch (providerName) {
+    case 'openai':
+      return createOpenAICompatibleProvider(baseUrl, model, process.env.EMBEDDING_API_KEY)
+    case 'ollama':
+      return createOllamaProvider(baseUrl, model)
+    default:
+      throw new Error(`Unknown embedding provider: ${providerName}`)
+  }
+}
+
+// Embed texts in batches so large documents do not exceed request limits
+export async function embedTexts(
+  provider: EmbeddingProvider,
+  texts: string[],
+  batchSize: number = DEFAULT_BATCH_SIZE
+): Promise<number[][]> {
+  const vectors: number[][] = []
+
+  for (let i = 0; i < texts.length; i += batchSize) {
+    const batch = texts.slice(i, i + batchSize)
+    const embedded = await provider.embed(batch)
+
+    if (embedded.length !== batch.length) {
+      throw new Error(`Embedding provider returned ${embedded.length} vectors for ${batch.length} inputs`)
+    }
+
+    vectors.push(...embedded)
+  }
+
+  return vectors
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { adaptTable, detectSourceSystem, getSourceName, mapColumns, normalizeColumnName } from '@/lib/farm-data/adapters'
+
+describe('normalizeColumnName', () => {
+  it('lowercases, spells out percent and drops punctuation', () => {
+    expect(normalizeColumnName('Fat %')).toBe('fatpct')
+    expect(normalizeColumnName('Lact No.')).toBe('lactno')
+    expect(normalizeColumnName('Milk Yield (24h)')).toBe('milkyield24h')
+  })
+})
+
+describe('detectSourceSystem', () => {
+  it('attributes files by their signature columns', () => {
+    const { adapter, confidence } = detectSourceSystem(['ID', 'PEN', 'LACT', 'DIM', 'MILK', 'PCTF', 'PCTP'])
+    expect(adapter?.id).toBe('dairycomp305')
+    expect(confidence).toBe(1)
+
+    expect(detectSourceSystem(['Animal Number', 'Lactation No', 'Days in milk', 'Milk yield 24h', 'OCC']).adapter?.id)
+      .toBe('delaval')
+  })
+
+  it('falls back to no source below the minimum signature matches', () => {
+    expect(detectSourceSystem(['Cow', 'Milk', 'Date'])).toEqual({ adapter: null, confidence: 0 })
+  })
+})
+
+describe('mapColumns', () => {
+  it('maps generic names and lists the rest as unmapped', () => {
+    const { mapping, unmappedColumns } = mapColumns(['Cow', 'Test Date', 'Milk (kg)', 'Fat %', 'Pen'], null)
+    expect(mapping).toEqual({ cow_id: 'Cow', test_date: 'Test Date', milk: 'Milk (kg)', fat_pct: 'Fat %' })
+    expect(unmappedColumns).toEqual(['Pen'])
+  })
+
+  it('uses each column for one field only', () => {
+    const { mapping } = mapColumns(['Date', 'Fresh Date'], null)
+    expect(mapping).toEqual({ test_date: 'Date', calving_date: 'Fresh Date' })
+  })
+})
+
+describe('adaptTable', () => {
+  it('renames DairyComp columns to the canonical schema', () => {
+    const adapted = adaptTable({
+      columns: ['ID', 'LACT', 'DIM', 'MILK', 'PCTF', 'PCTP', 'FDAT', 'PEN'],
+      rows: [{ ID: '0101', LACT: 2, DIM: 45, MILK: 41, PCTF: 3.8, PCTP: 3.1, FDAT: '2024-04-01', PEN: 3 }]
+    })
+
+    expect(adapted.sourceSystem).toBe('dairycomp305')
+    expect(adapted.sourceName).toBe('DairyComp 305')
+    expect(adapted.table.columns).toEqual(['cow_id', 'lactation', 'dim', 'milk', 'fat_pct', 'protein_pct', 'calving_date', 'PEN'])
+    expect(adapted.table.rows[0]).toMatchObject({ cow_id: '0101', lactation: 2, fat_pct: 3.8, calving_date: '2024-04-01', PEN: 3 })
+  })
+
+  it('converts SCC in cells/mL to thousands', () => {
+    const adapted = adaptTable({
+      columns: ['Cow', 'SCC'],
+      rows: [{ Cow: '1', SCC: 150000 }, { Cow: '2', SCC: 420000 }, { Cow: '3', SCC: null }]
+    })
+    expect(adapted.table.rows.map(row => row.scc)).toEqual([150, 420, null])
+  })
+
+  it('keeps SCC already in thousands', () => {
+    const adapted = adaptTable({ columns: ['Cow', 'SCC'], rows: [{ Cow: '1', SCC: 150 }, { Cow: '2', SCC: 420 }] })
+    expect(adapted.table.rows.map(row => row.scc)).toEqual([150, 420])
+  })
+
+  it('keeps an unmapped column that already has a canonical name under a suffix', () => {
+    const adapted = adaptTable({ columns: ['Cow ID', 'cow'], rows: [{ 'Cow ID': '7', cow: 'Daisy' }] })
+    expect(adapted.mapping.cow_id).toBe('Cow ID')
+    expect(adapted.table.rows[0]).toEqual({ cow_id: '7', cow: 'Daisy' })
+  })
+
+  it('honours a forced source system', () => {
+    const adapted = adaptTable({ columns: ['Cow Number', 'Daily Yield'], rows: [] }, 'afimilk')
+    expect(adapted).toMatchObject({ sourceSystem: 'afimilk', confidence: 1, mapping: { cow_id: 'Cow Number', milk: 'Daily Yield' } })
+    expect(getSourceName('afimilk')).toBe('Afimilk')
+    expect(getSourceName(null)).toBe('Generic CSV/Excel')
+  })
+})
@@ -0,0 +1,259 @@
+import { CellValue, DataTable } from '@/lib/farm-data/parser'
+
+// Import adapters for herd-management software exports. Each adapter knows
+// the column naming of one source system (DairyComp 305, PCDART, Afimilk,
+// DeLaval DelPro); detected columns are renamed to a canonical herd schema so
+// analysis works the same regardless of where the file came from.
+
+export type CanonicalField =
+  | 'cow_id'
+  | 'lactation'
+  | 'dim'
+  | 'test_date'
+  | 'milk'
+  | 'fat_pct'
+  | 'protein_pct'
+  | 'scc'
+  | 'birth_date'
+  | 'breed'
+  | 'calving_date'
+  | 'dry_date'
+  | 'event'
+  | 'remark'
+
+export const CANONICAL_FIELDS: { field: CanonicalField; description: string }[] = [
+  { field: 'cow_id', description: 'Cow ID / ear tag' },
+  { field: 'lactation', description: 'Lactation number (parity)' },
+  { field: 'dim', description: 'Days in milk' },
+  { field: 'test_date', description: 'Test, record or event date' },
+  { field: 'milk', description: 'Test-day milk yield' },
+  { field: 'fat_pct', description: 'Fat %' },
+  { field: 'protein_pct', description: 'Protein %' },
+  { field: 'scc', description: 'Somatic cell count (x1000 cells/mL)' },
+  { field: 'birth_date', description: 'Birth date' },
+  { field: 'breed', description: 'Breed' },
+  { field: 'calving_date', description: 'Calving (fresh) date of the current lactation' },
+  { field: 'dry_date', description: 'Dry-off date' },
+  { field: 'event', description: 'Herd event (calving, breeding, pregnancy check, dry-off, treatment, cull)' },
+  { field: 'remark', description: 'Event remark or details' }
+]
+
+export interface HerdSourceAdapter {
+  id: string
+  name: string
+  // Normalized column names characteristic of this system's exports
+  signature: string[]
+  // Normalized column names mapped to each canonical field, in priority order
+  aliases: Partial<Record<CanonicalField, string[]>>
+}
+
+export interface AdaptedTable {
+  sourceSystem: string
+  sourceName: string
+  confidence: number
+  mapping: Partial<Record<CanonicalField, string>>
+  unmappedColumns: string[]
+  table: DataTable
+}
+
+// Aliases shared by every source, used when the adapter has no specific match
+const GENERIC_ALIASES: Record<CanonicalField, string[]> = {
+  cow_id: ['cowid', 'cow', 'id', 'animalid', 'animal', 'tag', 'eartag', 'cownumber', 'cowno'],
+  lactation: ['lactation', 'lact', 'lactno', 'lactationnumber', 'parity'],
+  dim: ['dim', 'daysinmilk'],
+  test_date: ['testdate', 'date', 'recorddate', 'sampledate'],
+  milk: ['milk', 'milkyield', 'yield', 'milkkg', 'milklbs', 'dailymilk'],
+  fat_pct: ['fatpct', 'fat', 'fatpercent', 'fatpercentage', 'butterfat'],
+  protein_pct: ['proteinpct', 'protein', 'prot', 'protpct', 'proteinpercent', 'proteinpercentage'],
+  scc: ['scc', 'somaticcellcount', 'cellcount'],
+  birth_date: ['birthdate', 'dateofbirth', 'dob', 'bdat'],
+  breed: ['breed'],
+  calving_date: ['calvingdate', 'freshdate', 'lastcalvingdate', 'fdat'],
+  dry_date: ['drydate', 'dryoffdate', 'ddat'],
+  event: ['event', 'eventtype', 'eventname'],
+  remark: ['remark', 'remarks', 'comment', 'comments', 'notes', 'protocol']
+}
+
+export const HERD_SOURCE_ADAPTERS: HerdSourceAdapter[] = [
+  {
+    id: 'dairycomp305',
+    name: 'DairyComp 305',
+    signature: ['id', 'pen', 'lact', 'dim', 'milk', 'pctf', 'pctp', 'lgscc', 'fdat', 'rpro', 'tbrd', 'ddat', 'cdat', 'bdat', 'tdat', '305me', 'event', 'remark', 'protocol'],
+    aliases: {
+      cow_id: ['id'],
+      lactation: ['lact'],
+      dim: ['dim'],
+      test_date: ['tdat', 'testdate'],
+      milk: ['milk'],
+      fat_pct: ['pctf'],
+      protein_pct: ['pctp'],
+      scc: ['scc'],
+      birth_date: ['bdat'],
+      breed: ['cbrd'],
+      calving_date: ['fdat'],
+      dry_date: ['ddat'],
+      event: ['event'],
+      remark: ['remark', 'protocol']
+    }
+  },
+  {
+    id: 'pcdart',
+    name: 'PCDART',
+    signature: ['cowid', 'barnname', 'lactno', 'tdmilk', 'testdaymilk', 'fatpct', 'protpct', 'scs', 'sccx1000', 'testdate', 'freshdate', 'controlno'],
+    aliases: {
+      cow_id: ['cowid', 'barnname', 'controlno'],
+      lactation: ['lactno', 'lact'],
+      dim: ['dim'],
+      test_date: ['testdate'],
+      milk: ['tdmilk', 'testdaymilk'],
+      fat_pct: ['fatpct', 'tdfatpct'],
+      protein_pct: ['protpct', 'tdprotpct'],
+      scc: ['sccx1000', 'scc'],
+      calving_date: ['freshdate']
+    }
+  },
+  {
+    id: 'afimilk',
+    name: 'Afimilk',
+    signature: ['cownumber', 'lactationnumber', 'daysinmilk', 'dailyyield', 'milkyield', 'conductivity', 'activity', 'restingtime', 'milkingtime', 'group'],
+    aliases: {
+      cow_id: ['cownumber', 'cowno'],
+      lactation: ['lactationnumber'],
+      dim: ['daysinmilk'],
+      test_date: ['date'],
+      milk: ['dailyyield', 'milkyield'],
+      fat_pct: ['fat', 'fatpct'],
+      protein_pct: ['protein', 'proteinpct'],
+      scc: ['scc']
+    }
+  },
+  {
+    id: 'delaval',
+    name: 'DeLaval DelPro',
+    signature: ['animalnumber', 'animalno', 'lactationno', 'daysinmilk', 'milkyield24h', 'yield24h', 'averageyield', 'occ', 'cellcount', 'milkingstall'],
+    aliases: {
+      cow_id: ['animalnumber', 'animalno'],
+      lactation: ['lactationno', 'lactationnumber'],
+      dim: ['daysinmilk'],
+      test_date: ['date'],
+      milk: ['milkyield24h', 'yield24h', 'milkyield'],
+      fat_pct: ['fat', 'fatpct'],
+      protein_pct: ['protein', 'proteinpct'],
+      scc: ['occ', 'cellcount', 'scc'],
+      calving_date: ['calvingdate', 'lastcalvingdate']
+    }
+  }
+]
+
+const GENERIC_SOURCE = { id: 'generic', name: 'Generic CSV/Excel' }
+// Minimum signature columns before a file is attributed to a source system
+const MIN_SIGNATURE_MATCHES = 3
+
+// Lowercase and strip everything but letters and digits ("Fat %" -> "fatpct", "Lact No." -> "lactno")
+export function normalizeColumnName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/%/g, 'pct')
+    .replace(/[^a-z0-9]/g, '')
+}
+
+// Score each adapter by how many of its signature columns appear in the file
+export function detectSourceSystem(columns: string[]): { adapter: HerdSourceAdapter | null; confidence: number } {
+  const normalized = new Set(columns.map(normalizeColumnName))
+  let best: HerdSourceAdapter | null = null
+  let bestMatches = 0
+
+  for (const adapter of HERD_SOURCE_ADAPTERS) {
+    const matches = adapter.signature.filter(column => normalized.has(column)).length
+    if (matches > bestMatches) {
+      best = adapter
+      bestMatches = matches
+    }
+  }
+
+  if (!best || bestMatches < MIN_SIGNATURE_MATCHES) return { adapter: null, confidence: 0 }
+
+  const confidence = bestMatches / Math.min(best.signature.length, columns.length)
+  return { adapter: best, confidence: Math.round(Math.min(1, confidence) * 100) / 100 }
+}
+
+// Map canonical fields to file columns, preferring the adapter's own names
+export function mapColumns(
+  columns: string[],
+  adapter: HerdSourceAdapter | null
+): { mapping: Partial<Record<CanonicalField, string>>; unmappedColumns: string[] } {
+  const byNormalized = new Map<string, string>()
+  for (const column of columns) {
+    const key = normalizeColumnName(column)
+    if (!byNormalized.has(key)) byNormalized.set(key, column)
+  }
+
+  const mapping: Partial<Record<CanonicalField, string>> = {}
+  const used = new Set<string>()
+
+  for (const { field } of CANONICAL_FIELDS) {
+    const candidates = [...(adapter?.aliases[field] || []), ...GENERIC_ALIASES[field]]
+    for (const candidate of candidates) {
+      const column = byNormalized.get(candidate)
+      if (column && !used.has(column)) {
+        mapping[field] = column
+        used.add(column)
+        break
+      }
+    }
+  }
+
+  return { mapping, unmappedColumns: columns.filter(column => !used.has(column)) }
+}
+
+// Some systems export raw cells/mL; the canonical unit is thousands of cells/mL
+function normalizeSCC(values: CellValue[]): CellValue[] {
+  const numbers = values.filter((value): value is number => typeof value === 'number').sort((a, b) => a - b)
+  if (numbers.length === 0) return values
+
+  const median = numbers[Math.floor(numbers.length / 2)]
+  if (median < 10000) return values
+  return values.map(value => (typeof value === 'number' ? Math.round(value / 1000) : value))
+}
+
+// Rename mapped columns to canonical names, keeping unmapped columns as-is
+export function adaptTable(table: DataTable, sourceSystem?: string | null): AdaptedTable {
+  const forced = sourceSystem ? HERD_SOURCE_ADAPTERS.find(adapter => adapter.id === sourceSystem) : undefined
+  const detected = forced ? { adapter: forced, confidence: 1 } : detectSourceSystem(table.columns)
+  const { mapping, unmappedColumns } = mapColumns(table.columns, detected.adapter)
+
+  const rename = new Map<string, string>()
+  for (const [field, column] of Object.entries(mapping)) {
+    rename.set(column as string, field)
+  }
+  // An unmapped column that already uses a canonical name keeps its data under a suffix
+  for (const column of unmappedColumns) {
+    rename.set(column, column in mapping ? `${column}_original` : column)
+  }
+
+  const sccColumn = mapping.scc
+  const sccValues = sccColumn ? normalizeSCC(table.rows.map(row => row[sccColumn])) : []
+
+  const rows = table.rows.map((row, index) => {
+    const adapted: Record<string, CellValue> = {}
+    for (const column of table.columns) {
+      adapted[rename.get(column) as string] = column === sccColumn ? sccValues[index] : row[column]
+    }
+    return adapted
+  })
+
+  const source = detected.adapter || GENERIC_SOURCE
+
+  return {
+    sourceSystem: source.id,
+    sourceName: source.name,
+    confidence: detected.adapter ? detected.confidence : 0,
+    mapping,
+    unmappedColumns,
+    table: { columns: table.columns.map(column => rename.get(column) as string), rows }
+  }
+}
+
+export function getSourceName(sourceSystem: string | null | undefined): string {
+  return HERD_SOURCE_ADAPTERS.find(adapter => adapter.id === sourceSystem)?.name || GENERIC_SOURCE.name
+}
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest'
+import { DataTable } from '@/lib/farm-data/parser'
+import { executeAnalysisPlan, parseDateValue, summarizeTable, validateAnalysisPlan } from '@/lib/farm-data/analysis'
+
+const table: DataTable = {
+  columns: ['Cow ID', 'Pen', 'Milk', 'Test Date'],
+  rows: [
+    { 'Cow ID': '101', Pen: 'A', Milk: 32, 'Test Date': '2024-05-01' },
+    { 'Cow ID': '102', Pen: 'A', Milk: 28, 'Test Date': '2024-05-20' },
+    { 'Cow ID': '103', Pen: 'B', Milk: 41, 'Test Date': '2024-06-10' },
+    { 'Cow ID': '104', Pen: 'B', Milk: null, 'Test Date': '2024-06-12' },
+    { 'Cow ID': '105', Pen: 'C', Milk: 25, 'Test Date': '2024-06-15' }
+  ]
+}
+
+describe('validateAnalysisPlan', () => {
+  it('binds column names case- and spacing-insensitively', () => {
+    const plan = validateAnalysisPlan(table, { groupBy: ['pen'], aggregates: [{ column: 'milk', fn: 'mean' }] })
+    expect(plan.groupBy).toEqual(['Pen'])
+    expect(plan.aggregates[0].column).toBe('Milk')
+  })
+
+  it('rejects unknown columns', () => {
+    expect(() => validateAnalysisPlan(table, { filters: [{ column: 'parity', op: 'eq', value: 1 }] }))
+      .toThrow('Unknown column "parity"')
+  })
+
+  it('allows sorting by aggregate aliases and the implicit count', () => {
+    const aliased = validateAnalysisPlan(table, {
+      groupBy: ['Pen'],
+      aggregates: [{ column: 'Milk', fn: 'mean', as: 'avg_milk' }],
+      sort: [{ column: 'avg_milk' }]
+    })
+    expect(aliased.sort[0].column).toBe('avg_milk')
+
+    const counted = validateAnalysisPlan(table, { groupBy: ['Pen'], sort: [{ column: 'count' }] })
+    expect(counted.sort[0].column).toBe('count')
+  })
+
+  it('rejects unparseable window dates', () => {
+    expect(() => validateAnalysisPlan(table, { timeWindow: { column: 'Test Date', from: 'last spring' } }))
+      .toThrow('Invalid timeWindow.from date "last spring"')
+  })
+})
+
+describe('executeAnalysisPlan', () => {
+  const run = (raw: unknown) => executeAnalysisPlan(table, validateAnalysisPlan(table, raw))
+
+  it('filters rows and keeps the selected columns', () => {
+    const result = run({ filters: [{ column: 'Milk', op: 'gte', value: 30 }], select: ['Cow ID', 'Milk'] })
+    expect(result.columns).toEqual(['Cow ID', 'Milk'])
+    expect(result.rows).toEqual([['101', 32], ['103', 41]])
+    expect(result.matchedRows).toBe(2)
+    expect(result.totalRows).toBe(5)
+  })
+
+  it('aggregates groups and sorts by the alias', () => {
+    const result = run({
+      groupBy: ['Pen'],
+      aggregates: [{ column: 'Milk', fn: 'mean', as: 'avg_milk' }, { column: 'Milk', fn: 'count' }],
+      sort: [{ column: 'avg_milk', direction: 'desc' }]
+    })
+    expect(result.columns).toEqual(['Pen', 'avg_milk', 'count_Milk'])
+    expect(result.rows).toEqual([['B', 41, 1], ['A', 30, 2], ['C', 25, 1]])
+  })
+
+  it('keeps missing values last when sorting descending', () => {
+    const result = run({ select: ['Cow ID', 'Milk'], sort: [{ column: 'Milk', direction: 'desc' }], limit: 2 })
+    expect(result.rows).toEqual([['103', 41], ['101', 32]])
+
+    const ascending = run({ select: ['Cow ID', 'Milk'], sort: [{ column: 'Milk', direction: 'asc' }] })
+    expect(ascending.rows.at(-1)).toEqual(['104', null])
+  })
+
+  it('counts grouped rows when no aggregate is given', () => {
+    const result = run({ groupBy: ['Pen'], sort: [{ column: 'count', direction: 'desc' }, { column: 'Pen', direction: 'asc' }] })
+    expect(result.columns).toEqual(['Pen', 'count'])
+    expect(result.rows).toEqual([['A', 2], ['B', 2], ['C', 1]])
+  })
+
+  it('applies "last N" windows relative to the newest date in the data', () => {
+    const result = run({ timeWindow: { column: 'Test Date', last: { amount: 10, unit: 'days' } }, select: ['Cow ID'] })
+    expect(result.rows.map(row => row[0])).toEqual(['103', '104', '105'])
+  })
+
+  it('applies explicit from and to bounds', () => {
+    const result = run({ timeWindow: { column: 'Test Date', from: '2024-05-10', to: '2024-06-11' }, select: ['Cow ID'] })
+    expect(result.rows.map(row => row[0])).toEqual(['102', '103'])
+  })
+})
+
+describe('parseDateValue', () => {
+  it('reads ISO strings and Excel serial dates', () => {
+    expect(parseDateValue('2024-05-01')).toBe(Date.UTC(2024, 4, 1))
+    expect(parseDateValue(45413)).toBe(Date.UTC(2024, 4, 1))
+    expect(parseDateValue(12)).toBeNull()
+    expect(parseDateValue('not a date')).toBeNull()
+  })
+})
+
+describe('summarizeTable', () => {
+  it('summarizes numeric columns and counts text columns', () => {
+    const result = summarizeTable(table)
+    expect(result.rows).toContainEqual(['Milk', 'numeric', 4, 31.5, 25, 41])
+    expect(result.rows).toContainEqual(['Pen', 'text', 5, null, null, null])
+  })
+})
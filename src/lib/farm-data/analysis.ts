@@ -0,0 +1,409 @@
+import { z } from 'zod'
+import { CellValue, DataTable } from '@/lib/farm-data/parser'
+import { CANONICAL_FIELDS } from '@/lib/farm-data/adapters'
+import { compareCells } from '@/lib/farm-data/artifacts'
+
+// LLM-planned data analysis. The LLM only produces a JSON operation plan;
+// the plan is validated against a fixed schema and the table's real columns,
+// then executed in-process. User text never reaches a shell or interpreter.
+
+const scalarSchema = z.union([z.string(), z.number()])
+
+const filterSchema = z.object({
+  column: z.string(),
+  op: z.enum(['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains', 'in', 'is_null', 'not_null']),
+  value: z.union([scalarSchema, z.array(scalarSchema)]).optional()
+})
+
+const aggregateSchema = z.object({
+  column: z.string(),
+  fn: z.enum(['count', 'sum', 'mean', 'median', 'min', 'max', 'std', 'distinct']),
+  as: z.string().max(60).optional()
+})
+
+const sortSchema = z.object({
+  column: z.string(),
+  direction: z.enum(['asc', 'desc']).default('desc')
+})
+
+const timeWindowSchema = z.object({
+  column: z.string(),
+  last: z.object({
+    amount: z.number().int().positive().max(3650),
+    unit: z.enum(['days', 'weeks', 'months', 'years'])
+  }).optional(),
+  from: z.string().optional(),
+  to: z.string().optional()
+})
+
+const chartSchema = z.object({
+  type: z.enum(['line', 'bar', 'scatter']),
+  x: z.string(),
+  y: z.array(z.string()).min(1).max(3)
+})
+
+export const analysisPlanSchema = z.object({
+  filters: z.array(filterSchema).max(10).default([]),
+  timeWindow: timeWindowSchema.optional(),
+  groupBy: z.array(z.string()).max(3).default([]),
+  aggregates: z.array(aggregateSchema).max(10).default([]),
+  select: z.array(z.string()).max(20).optional(),
+  sort: z.array(sortSchema).max(3).default([]),
+  limit: z.number().int().min(1).max(200).default(20),
+  // Chart columns refer to the result (group and aggregate names), checked when the chart is built
+  chart: chartSchema.optional()
+})
+
+export type AnalysisPlan = z.infer<typeof analysisPlanSchema>
+
+export interface AnalysisResult {
+  description: string
+  columns: string[]
+  rows: CellValue[][]
+  matchedRows: number
+  totalRows: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const UNIT_DAYS = { days: 1, weeks: 7, months: 30.44, years: 365.25 }
+// Result column when rows are grouped without aggregates
+const IMPLICIT_COUNT_ALIAS = 'count'
+
+// Resolve a planned column name to the table's actual column (case/spacing-insensitive)
+function resolveColumn(table: DataTable, name: string): string {
+  if (table.columns.includes(name)) return name
+
+  const key = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '')
+  const match = table.columns.find(column => key(column) === key(name))
+  if (!match) {
+    throw new Error(`Unknown column "${name}"`)
+  }
+  return match
+}
+
+// Sort keys may name an aggregate alias instead of a table column, including the
+// implicit "count" added when rows are grouped without aggregates
+function resolveSortColumn(table: DataTable, plan: AnalysisPlan, name: string): string {
+  const aliases = plan.aggregates.length === 0 && plan.groupBy.length > 0
+    ? [IMPLICIT_COUNT_ALIAS]
+    : plan.aggregates.map(agg => agg.as || `${agg.fn}_${agg.column}`)
+  if (aliases.includes(name)) return name
+  return resolveColumn(table, name)
+}
+
+// Explicit window bounds must be real dates; an unparseable one would silently match nothing
+function checkWindowDate(field: 'from' | 'to', value: string | undefined): void {
+  if (value !== undefined && Number.isNaN(Date.parse(value))) {
+    throw new Error(`Invalid timeWindow.${field} date "${value}"; use YYYY-MM-DD`)
+  }
+}
+
+// Validate raw LLM output and bind every column reference to a real column
+export function validateAnalysisPlan(table: DataTable, raw: unknown): AnalysisPlan {
+  const plan = analysisPlanSchema.parse(raw)
+  checkWindowDate('from', plan.timeWindow?.from)
+  checkWindowDate('to', plan.timeWindow?.to)
+
+  return {
+    ...plan,
+    filters: plan.filters.map(filter => ({ ...filter, column: resolveColumn(table, filter.column) })),
+    timeWindow: plan.timeWindow
+      ? { ...plan.timeWindow, column: resolveColumn(table, plan.timeWindow.column) }
+      : undefined,
+    groupBy: plan.groupBy.map(column => resolveColumn(table, column)),
+    aggregates: plan.aggregates.map(aggregate => ({ ...aggregate, column: resolveColumn(table, aggregate.column) })),
+    select: plan.select?.map(column => resolveColumn(table, column)),
+    sort: plan.sort.map(sort => ({ ...sort, column: resolveSortColumn(table, plan, sort.column) }))
+  }
+}
+
+export function parseDateValue(value: CellValue): number | null {
+  if (value === null) return null
+  if (typeof value === 'number') {
+    // Excel serial dates
+    if (value > 20000 && value < 80000) return Date.UTC(1899, 11, 30) + value * DAY_MS
+    return null
+  }
+  const time = Date.parse(value)
+  return Number.isNaN(time) ? null : time
+}
+
+function toNumber(value: CellValue): number | null {
+  if (typeof value === 'number') return value
+  if (value === null) return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function matchesFilter(row: Record<string, CellValue>, filter: AnalysisPlan['filters'][number]): boolean {
+  const cell = row[filter.column]
+  const value = filter.value
+
+  switch (filter.op) {
+    case 'is_null':
+      return cell === null
+    case 'not_null':
+      return cell !== null
+    case 'in':
+      return Array.isArray(value) && value.some(option => compareCells(cell, option) === 0 || String(cell) === String(option))
+    case 'contains':
+      return cell !== null && String(cell).toLowerCase().includes(String(value ?? '').toLowerCase())
+  }
+
+  if (cell === null || value === undefined || Array.isArray(value)) return false
+
+  const numericCell = toNumber(cell)
+  const numericValue = toNumber(value)
+  const comparison = numericCell !== null && numericValue !== null
+    ? numericCell - numericValue
+    : String(cell).toLowerCase().localeCompare(String(value).toLowerCase())
+
+  switch (filter.op) {
+    case 'eq':
+      return comparison === 0
+    case 'neq':
+      return comparison !== 0
+    case 'gt':
+      return comparison > 0
+    case 'gte':
+      return comparison >= 0
+    case 'lt':
+      return comparison < 0
+    case 'lte':
+      return comparison <= 0
+  }
+}
+
+// Keep rows inside the time window; "last N units" is relative to the newest date in the data
+function applyTimeWindow(rows: Record<string, CellValue>[], window: NonNullable<AnalysisPlan['timeWindow']>) {
+  const times = rows.map(row => parseDateValue(row[window.column]))
+  let from = window.from ? Date.parse(window.from) : -Infinity
+  let to = window.to ? Date.parse(window.to) : Infinity
+
+  if (window.last) {
+    const newest = times.reduce<number>((max, time) => (time !== null && time > max ? time : max), -Infinity)
+    if (Number.isFinite(newest)) {
+      from = Math.max(from, newest - window.last.amount * UNIT_DAYS[window.last.unit] * DAY_MS)
+    }
+  }
+
+  return rows.filter((_, index) => {
+    const time = times[index]
+    return time !== null && time >= from && time <= to
+  })
+}
+
+function aggregate(values: CellValue[], fn: AnalysisPlan['aggregates'][number]['fn']): CellValue {
+  if (fn === 'count') return values.filter(value => value !== null).length
+  if (fn === 'distinct') return new Set(values.filter(value => value !== null).map(String)).size
+
+  const numbers = values.map(toNumber).filter((value): value is number => value !== null)
+  if (numbers.length === 0) return null
+
+  switch (fn) {
+    case 'sum':
+      return round(numbers.reduce((sum, value) => sum + value, 0))
+    case 'mean':
+      return round(numbers.reduce((sum, value) => sum + value, 0) / numbers.length)
+    case 'median': {
+      const sorted = [...numbers].sort((a, b) => a - b)
+      const middle = Math.floor(sorted.length / 2)
+      return round(sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2)
+    }
+    case 'min':
+      return round(numbers.reduce((min, value) => Math.min(min, value), Infinity))
+    case 'max':
+      return round(numbers.reduce((max, value) => Math.max(max, value), -Infinity))
+    case 'std': {
+      if (numbers.length < 2) return null
+      const mean = numbers.reduce((sum, value) => sum + value, 0) / numbers.length
+      const variance = numbers.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (numbers.length - 1)
+      return round(Math.sqrt(variance))
+    }
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000
+}
+
+function describePlan(plan: AnalysisPlan): string {
+  const parts: string[] = []
+  if (plan.timeWindow) {
+    const window = plan.timeWindow
+    parts.push(window.last
+      ? `${window.column} within the last ${window.last.amount} ${window.last.unit}`
+      : `${window.column} between ${window.from || 'start'} and ${window.to || 'end'}`)
+  }
+  plan.filters.forEach(filter => {
+    parts.push(`${filter.column} ${filter.op}${filter.value !== undefined ? ` ${JSON.stringify(filter.value)}` : ''}`)
+  })
+  if (plan.groupBy.length > 0) parts.push(`grouped by ${plan.groupBy.join(', ')}`)
+  if (plan.aggregates.length > 0) {
+    parts.push(plan.aggregates.map(agg => `${agg.fn}(${agg.column})`).join(', '))
+  }
+  if (plan.sort.length > 0) {
+    parts.push(`sorted by ${plan.sort.map(sort => `${sort.column} ${sort.direction}`).join(', ')}`)
+  }
+  parts.push(`limit ${plan.limit}`)
+  return parts.join('; ')
+}
+
+// Execute a validated plan against a table
+export function executeAnalysisPlan(table: DataTable, plan: AnalysisPlan): AnalysisResult {
+  let rows = table.rows
+
+  if (plan.timeWindow) {
+    rows = applyTimeWindow(rows, plan.timeWindow)
+  }
+
+  rows = rows.filter(row => plan.filters.every(filter => matchesFilter(row, filter)))
+  const matchedRows = rows.length
+
+  let columns: string[]
+  let output: Record<string, CellValue>[]
+
+  if (plan.groupBy.length > 0 || plan.aggregates.length > 0) {
+    const aggregates = plan.aggregates.length > 0
+      ? plan.aggregates
+      : [{ column: plan.groupBy[0], fn: 'count' as const, as: IMPLICIT_COUNT_ALIAS }]
+    const aggregateNames = aggregates.map(agg => agg.as || `${agg.fn}_${agg.column}`)
+
+    const groups = new Map<string, Record<string, CellValue>[]>()
+    for (const row of rows) {
+      const key = JSON.stringify(plan.groupBy.map(column => row[column]))
+      const group = groups.get(key)
+      if (group) group.push(row)
+      else groups.set(key, [row])
+    }
+    if (groups.size === 0 && plan.groupBy.length === 0) groups.set('[]', [])
+
+    columns = [...plan.groupBy, ...aggregateNames]
+    output = Array.from(groups.entries()).map(([key, groupRows]) => {
+      const keyValues: CellValue[] = JSON.parse(key)
+      const result: Record<string, CellValue> = {}
+      plan.groupBy.forEach((column, index) => {
+        result[column] = keyValues[index]
+      })
+      aggregates.forEach((agg, index) => {
+        result[aggregateNames[index]] = aggregate(groupRows.map(row => row[agg.column]), agg.fn)
+      })
+      return result
+    })
+  } else {
+    columns = plan.select && plan.select.length > 0 ? plan.select : table.columns
+    output = rows
+  }
+
+  // Sort keys may name output columns (aggregate aliases) as well as table columns
+  const sorts = plan.sort.filter(sort => columns.includes(sort.column) || table.columns.includes(sort.column))
+  if (sorts.length > 0) {
+    output = [...output].sort((a, b) => {
+      for (const sort of sorts) {
+        const comparison = compareCells(a[sort.column], b[sort.column], sort.direction)
+        if (comparison !== 0) return comparison
+      }
+      return 0
+    })
+  }
+
+  return {
+    description: describePlan(plan),
+    columns,
+    rows: output.slice(0, plan.limit).map(row => columns.map(column => row[column] ?? null)),
+    matchedRows,
+    totalRows: table.rows.length
+  }
+}
+
+// Summary statistics used when no valid plan can be produced
+export function summarizeTable(table: DataTable): AnalysisResult {
+  const rows: CellValue[][] = table.columns.map(column => {
+    const values = table.rows.map(row => row[column])
+    const numbers = values.filter((value): value is number => typeof value === 'number')
+    const nonNull = values.filter(value => value !== null).length
+
+    if (numbers.length > 0 && numbers.length >= nonNull * 0.8) {
+      return [column, 'numeric', nonNull, aggregate(numbers, 'mean'), aggregate(numbers, 'min'), aggregate(numbers, 'max')]
+    }
+    return [column, 'text', nonNull, null, null, null]
+  })
+
+  return {
+    description: 'column summary',
+    columns: ['column', 'type', 'count', 'mean', 'min', 'max'],
+    rows,
+    matchedRows: table.rows.length,
+    totalRows: table.rows.length
+  }
+}
+
+// Render a result as a markdown table for the LLM prompt
+export function formatAnalysisResult(result: AnalysisResult): string {
+  const header = `| ${result.columns.join(' | ')} |`
+  const divider = `| ${result.columns.map(() => '---').join(' | ')} |`
+  const body = result.rows
+    .map(row => `| ${row.map(cell => (cell === null ? '' : String(cell))).join(' | ')} |`)
+    .join('\n')
+
+  return `Analysis: ${result.description}
+Rows matched: ${result.matchedRows} of ${result.totalRows}
+
+${header}
+${divider}
+${body}`
+}
+
+// Ask the LLM for an analysis plan, returning null when no valid plan is produced
+export async function planAnalysis(zai: any, query: string, table: DataTable): Promise<AnalysisPlan | null> {
+  const columnInfo = table.columns
+    .map(column => {
+      const sample = table.rows.find(row => row[column] !== null)?.[column]
+      const canonical = CANONICAL_FIELDS.find(({ field }) => field === column)
+      const meaning = canonical ? ` - ${canonical.description}` : ''
+      return `- ${column} (${typeof sample === 'number' ? 'number' : 'text'}, e.g. ${JSON.stringify(sample ?? null)})${meaning}`
+    })
+    .join('\n')
+
+  const prompt = `You plan data analyses over a dairy farm table. Produce a JSON plan that answers the question.
+
+Columns:
+${columnInfo}
+
+Question: "${query}"
+
+The plan must match this shape (omit fields you do not need):
+{
+  "filters": [{ "column": string, "op": "eq"|"neq"|"gt"|"gte"|"lt"|"lte"|"contains"|"in"|"is_null"|"not_null", "value": string|number|array }],
+  "timeWindow": { "column": string, "last": { "amount": number, "unit": "days"|"weeks"|"months"|"years" } } or { "column": string, "from": "YYYY-MM-DD", "to": "YYYY-MM-DD" },
+  "groupBy": [string],
+  "aggregates": [{ "column": string, "fn": "count"|"sum"|"mean"|"median"|"min"|"max"|"std"|"distinct", "as": string }],
+  "select": [string],
+  "sort": [{ "column": string, "direction": "asc"|"desc" }],
+  "limit": number,
+  "chart": { "type": "line"|"bar"|"scatter", "x": string, "y": [string] }
+}
+
+Only use the column names listed above. Sort may reference an aggregate "as" name.
+Add a chart only when it helps: "line" for trends over DIM or dates, "bar" to compare groups (e.g. by pen), "scatter" for two numeric columns. Chart x and y must be result columns (group-by columns, aggregate "as" names or selected columns).
+Respond with ONLY the JSON plan.`
+
+  try {
+    const completion = await zai.chat.completions.create({
+      messages: [
+        { role: 'assistant', content: 'You are a data analysis planner. Respond with ONLY valid JSON.' },
+        { role: 'user', content: prompt }
+      ],
+      thinking: { type: 'disabled' }
+    })
+
+    const content: string = completion.choices[0]?.message?.content || ''
+    const jsonMatch = content.match(/\{[\s\S]*\}/)
+    if (!jsonMatch) return null
+
+    return validateAnalysisPlan(table, JSON.parse(jsonMatch[0]))
+  } catch (error) {
+    console.error('Analysis planning error:', error)
+    return null
+  }
+}
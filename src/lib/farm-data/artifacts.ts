@@ -0,0 +1,146 @@
+import type { CellValue } from '@/lib/farm-data/parser'
+
+// Structured result payloads attached to analysis answers and rendered in the
+// chat as sortable tables and charts. This module only holds plain data
+// helpers so the chat UI can import its types.
+
+export type ChartType = 'line' | 'bar' | 'scatter'
+
+export interface ChartSpec {
+  type: ChartType
+  x: string
+  y: string[]
+}
+
+export interface TableArtifact {
+  kind: 'table'
+  title: string
+  columns: string[]
+  rows: CellValue[][]
+}
+
+export interface ChartArtifact {
+  kind: 'chart'
+  chartType: ChartType
+  title: string
+  x: string
+  y: string[]
+  data: Record<string, CellValue>[]
+}
+
+export type AnalysisArtifact = TableArtifact | ChartArtifact
+
+// Cell ordering shared by the analysis executor and the chat table; missing
+// values sort last in either direction
+export function compareCells(a: CellValue, b: CellValue, direction: 'asc' | 'desc' = 'asc'): number {
+  if (a === null && b === null) return 0
+  if (a === null) return 1
+  if (b === null) return -1
+  const comparison = typeof a === 'number' && typeof b === 'number'
+    ? a - b
+    : String(a).localeCompare(String(b), undefined, { numeric: true })
+  return direction === 'asc' ? comparison : -comparison
+}
+
+// Minimal shape of an analysis result needed to build artifacts
+interface TabularResult {
+  description: string
+  columns: string[]
+  rows: CellValue[][]
+}
+
+const MAX_SERIES = 3
+const MAX_INFERRED_BARS = 40
+const IDENTIFIER_PATTERN = /(^|_)(id|no|number|tag)$/i
+// Column names that read naturally as a continuous x axis
+const ORDERED_AXIS_PATTERN = /(^|_)(dim|date|day|week|month|year|period|test_date|lactation)($|_)/i
+
+function findColumn(columns: string[], name: string): string | null {
+  const key = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '')
+  return columns.find(column => column === name) || columns.find(column => key(column) === key(name)) || null
+}
+
+function isNumericColumn(result: TabularResult, index: number): boolean {
+  const values = result.rows.map(row => row[index]).filter(value => value !== null)
+  return values.length > 0 && values.every(value => typeof value === 'number')
+}
+
+// Resolve a planned chart against the result columns, or infer one from the result shape
+function resolveChart(result: TabularResult, spec?: ChartSpec): ChartSpec | null {
+  if (result.rows.length < 2 || result.columns.length < 2) return null
+
+  if (spec) {
+    const x = findColumn(result.columns, spec.x)
+    const y = spec.y
+      .map(name => findColumn(result.columns, name))
+      .filter((column): column is string => column !== null && column !== x)
+      .filter(column => isNumericColumn(result, result.columns.indexOf(column)))
+    if (x && y.length > 0) return { type: spec.type, x, y: y.slice(0, MAX_SERIES) }
+  }
+
+  const [x, ...rest] = result.columns
+  const y = rest.filter((_, index) => isNumericColumn(result, index + 1)).slice(0, MAX_SERIES)
+  if (y.length === 0) return null
+
+  if (ORDERED_AXIS_PATTERN.test(x)) return { type: 'line', x, y }
+  if (isNumericColumn(result, 0) && !IDENTIFIER_PATTERN.test(x)) return { type: 'scatter', x, y: y.slice(0, 1) }
+  if (result.rows.length > MAX_INFERRED_BARS) return null
+  return { type: 'bar', x, y }
+}
+
+// Build the table (and chart, when the result has a plottable shape) for an analysis result
+export function buildAnalysisArtifacts(
+  result: TabularResult,
+  { chart, inferChart = true }: { chart?: ChartSpec; inferChart?: boolean } = {}
+): AnalysisArtifact[] {
+  if (result.rows.length === 0) return []
+
+  const artifacts: AnalysisArtifact[] = [{
+    kind: 'table',
+    title: result.description,
+    columns: result.columns,
+    rows: result.rows
+  }]
+
+  const resolved = chart || inferChart ? resolveChart(result, chart) : null
+  if (resolved) {
+    const indexes = [resolved.x, ...resolved.y].map(column => result.columns.indexOf(column))
+    const data = result.rows.map(row => {
+      const point: Record<string, CellValue> = {}
+      indexes.forEach((index, position) => {
+        point[position === 0 ? resolved.x : resolved.y[position - 1]] = row[index]
+      })
+      return point
+    })
+
+    artifacts.push({
+      kind: 'chart',
+      chartType: resolved.type,
+      title: `${resolved.y.join(', ')} by ${resolved.x}`,
+      x: resolved.x,
+      y: resolved.y,
+      // Lines read left to right, so order points along the x axis
+      data: resolved.type === 'line'
+        ? [...data].sort((a, b) => compareAxis(a[resolved.x], b[resolved.x]))
+        : data
+    })
+  }
+
+  return artifacts
+}
+
+function compareAxis(a: CellValue, b: CellValue): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  return String(a ?? '').localeCompare(String(b ?? ''), undefined, { numeric: true })
+}
+
+// Parse the JSON artifacts column of a stored message
+export function parseArtifacts(artifacts: string | null | undefined): AnalysisArtifact[] {
+  if (!artifacts) return []
+  try {
+    const parsed = JSON.parse(artifacts)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
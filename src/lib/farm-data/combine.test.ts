@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import { DataTable } from '@/lib/farm-data/parser'
+import { combineTables, detectJoinKeys, fileLabel, SOURCE_FILE_COLUMN } from '@/lib/farm-data/combine'
+
+const testDays: DataTable = {
+  columns: ['cow_id', 'test_date', 'milk'],
+  rows: [
+    { cow_id: '00101', test_date: '2024-05-01', milk: 32 },
+    { cow_id: '00101', test_date: '2024-06-01', milk: 30 },
+    { cow_id: '00102', test_date: '2024-05-01', milk: 28 },
+    { cow_id: '00103', test_date: '2024-05-01', milk: 41 }
+  ]
+}
+
+describe('fileLabel', () => {
+  it('drops the upload timestamp and extension', () => {
+    expect(fileLabel('1718000000000-May Test Day.csv')).toBe('may_test_day')
+    expect(fileLabel('---.xlsx')).toBe('file')
+  })
+})
+
+describe('detectJoinKeys', () => {
+  it('prefers cow and date when both overlap', () => {
+    const other: DataTable = {
+      columns: ['cow_id', 'test_date', 'scc'],
+      rows: [{ cow_id: 101, test_date: '05/01/2024', scc: 120 }]
+    }
+    expect(detectJoinKeys(testDays, other)).toEqual(['cow_id', 'test_date'])
+  })
+
+  it('falls back to cow ID when dates do not line up', () => {
+    const other: DataTable = { columns: ['cow_id', 'test_date', 'pen'], rows: [{ cow_id: '101', test_date: '2023-01-01', pen: 'A' }] }
+    expect(detectJoinKeys(testDays, other)).toEqual(['cow_id'])
+  })
+
+  it('returns null when no shared key overlaps enough', () => {
+    const other: DataTable = { columns: ['cow_id', 'pen'], rows: [{ cow_id: '900', pen: 'A' }, { cow_id: '901', pen: 'B' }] }
+    expect(detectJoinKeys(testDays, other)).toBeNull()
+  })
+})
+
+describe('combineTables', () => {
+  it('returns a single file unchanged', () => {
+    const combined = combineTables([{ fileName: 'tests.csv', table: testDays }])
+    expect(combined.table).toBe(testDays)
+    expect(combined.skippedFiles).toEqual([])
+  })
+
+  it('stacks files with the same columns and tags each row with its file', () => {
+    const july: DataTable = { columns: ['milk', 'test_date', 'cow_id'], rows: [{ cow_id: '00101', test_date: '2024-07-01', milk: 29 }] }
+    const combined = combineTables([
+      { fileName: '1718000000000-june.csv', table: testDays },
+      { fileName: '1718000000001-july.csv', table: july }
+    ])
+
+    expect(combined.table.columns).toEqual(['cow_id', 'test_date', 'milk', SOURCE_FILE_COLUMN])
+    expect(combined.table.rows).toHaveLength(5)
+    expect(combined.table.rows[4]).toMatchObject({ milk: 29, [SOURCE_FILE_COLUMN]: 'july' })
+    expect(combined.description).toContain('stacked')
+  })
+
+  it('joins the latest matching row onto the largest table', () => {
+    const pens: DataTable = {
+      columns: ['cow_id', 'test_date', 'pen', 'milk'],
+      rows: [
+        { cow_id: '101', test_date: '2024-01-01', pen: 'Fresh', milk: 20 },
+        { cow_id: '101', test_date: '2024-03-01', pen: 'High', milk: 25 },
+        { cow_id: '102', test_date: '2024-03-01', pen: 'Low', milk: 18 }
+      ]
+    }
+    const combined = combineTables([
+      { fileName: 'pens.csv', table: pens },
+      { fileName: 'tests.csv', table: testDays }
+    ])
+
+    expect(combined.description).toBe('base file tests.csv; joined pens.csv on cow_id')
+    expect(combined.table.columns).toEqual(['cow_id', 'test_date', 'milk', 'test_date_pens', 'pen', 'milk_pens'])
+    expect(combined.table.rows.map(row => [row.cow_id, row.pen, row.milk_pens])).toEqual([
+      ['00101', 'High', 25],
+      ['00101', 'High', 25],
+      ['00102', 'Low', 18],
+      ['00103', null, null]
+    ])
+  })
+
+  it('reports files that cannot be joined', () => {
+    const feed: DataTable = { columns: ['ingredient', 'kg'], rows: [{ ingredient: 'silage', kg: 30 }] }
+    const combined = combineTables([
+      { fileName: 'tests.csv', table: testDays },
+      { fileName: 'feed.csv', table: feed }
+    ])
+    expect(combined.skippedFiles).toEqual(['feed.csv'])
+    expect(combined.table.columns).toEqual(testDays.columns)
+  })
+})
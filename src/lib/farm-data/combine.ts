@@ -0,0 +1,176 @@
+import { CellValue, DataTable } from '@/lib/farm-data/parser'
+import { parseDateValue } from '@/lib/farm-data/analysis'
+
+// Combining several farm data files into one table for analysis. Files with
+// the same columns are stacked (with a source_file column so periods can be
+// compared); files with different columns are joined on detected keys such
+// as cow ID and test date.
+
+export interface SourceTable {
+  fileName: string
+  table: DataTable
+}
+
+export interface CombinedTable {
+  table: DataTable
+  description: string
+  skippedFiles: string[]
+}
+
+export const SOURCE_FILE_COLUMN = 'source_file'
+
+// Columns tried as join keys, most specific combination first
+const KEY_CANDIDATES: string[][] = [
+  ['cow_id', 'test_date'],
+  ['cow_id', 'lactation'],
+  ['cow_id']
+]
+// Minimum share of right-hand keys found in the base table before a shared column is used as a key
+const MIN_KEY_OVERLAP = 0.2
+
+// Short label for a file, without the upload timestamp prefix and extension
+export function fileLabel(fileName: string): string {
+  return fileName
+    .replace(/^\d{10,}-/, '')
+    .replace(/\.[^.]+$/, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '') || 'file'
+}
+
+// Normalize key values so "00123" matches 123 and dates match across formats
+function keyValue(column: string, value: CellValue): string | null {
+  if (value === null) return null
+  if (column.endsWith('_date') || column === 'date') {
+    const time = parseDateValue(value)
+    if (time !== null) return new Date(time).toISOString().slice(0, 10)
+  }
+  const text = String(value).trim()
+  if (/^\d+(\.0+)?$/.test(text)) return String(Number(text))
+  return text.toLowerCase()
+}
+
+function rowKey(row: Record<string, CellValue>, keys: string[]): string | null {
+  const parts: string[] = []
+  for (const key of keys) {
+    const value = keyValue(key, row[key])
+    if (value === null) return null
+    parts.push(value)
+  }
+  return JSON.stringify(parts)
+}
+
+function sameColumns(a: DataTable, b: DataTable): boolean {
+  if (a.columns.length !== b.columns.length) return false
+  const set = new Set(a.columns)
+  return b.columns.every(column => set.has(column))
+}
+
+// Stack files that share a schema, tagging each row with its source file
+function unionTables(sources: SourceTable[]): DataTable {
+  const columns = [...sources[0].table.columns.filter(column => column !== SOURCE_FILE_COLUMN), SOURCE_FILE_COLUMN]
+  const rows = sources.flatMap(({ fileName, table }) =>
+    table.rows.map(row => ({ ...row, [SOURCE_FILE_COLUMN]: fileLabel(fileName) }))
+  )
+  return { columns, rows }
+}
+
+// Pick the most specific shared key whose values actually overlap
+export function detectJoinKeys(base: DataTable, other: DataTable): string[] | null {
+  const candidates = [...KEY_CANDIDATES]
+  // Shared non-canonical columns that look like identifiers are tried last
+  for (const column of other.columns) {
+    if (base.columns.includes(column) && /(^|_)(id|tag|number|no)$/i.test(column) && column !== 'cow_id') {
+      candidates.push([column])
+    }
+  }
+
+  for (const keys of candidates) {
+    if (!keys.every(key => base.columns.includes(key) && other.columns.includes(key))) continue
+
+    const baseKeys = new Set(base.rows.map(row => rowKey(row, keys)).filter(Boolean))
+    const otherKeys = other.rows.map(row => rowKey(row, keys)).filter((key): key is string => key !== null)
+    if (otherKeys.length === 0) continue
+
+    const overlap = otherKeys.filter(key => baseKeys.has(key)).length / otherKeys.length
+    if (overlap >= MIN_KEY_OVERLAP) return keys
+  }
+
+  return null
+}
+
+// Left-join other onto base. When several rows share a key (e.g. a cow's test
+// days joined on cow ID alone), the most recent row is used.
+function joinTables(base: DataTable, other: DataTable, keys: string[], label: string): DataTable {
+  const byKey = new Map<string, Record<string, CellValue>>()
+  const recency = (row: Record<string, CellValue>) => parseDateValue(row.test_date ?? null) ?? -Infinity
+
+  for (const row of other.rows) {
+    const key = rowKey(row, keys)
+    if (key === null) continue
+    const existing = byKey.get(key)
+    if (!existing || recency(row) >= recency(existing)) byKey.set(key, row)
+  }
+
+  const rename = new Map<string, string>()
+  for (const column of other.columns) {
+    if (keys.includes(column)) continue
+    rename.set(column, base.columns.includes(column) ? `${column}_${label}` : column)
+  }
+
+  const columns = [...base.columns, ...rename.values()]
+  const rows = base.rows.map(row => {
+    const key = rowKey(row, keys)
+    const match = key !== null ? byKey.get(key) : undefined
+    const joined: Record<string, CellValue> = { ...row }
+    for (const [column, name] of rename) {
+      joined[name] = match ? match[column] ?? null : null
+    }
+    return joined
+  })
+
+  return { columns, rows }
+}
+
+// Combine the selected files: union same-schema files, then join the groups on detected keys
+export function combineTables(sources: SourceTable[]): CombinedTable {
+  if (sources.length === 0) return { table: { columns: [], rows: [] }, description: 'no files', skippedFiles: [] }
+  if (sources.length === 1) return { table: sources[0].table, description: `file ${sources[0].fileName}`, skippedFiles: [] }
+
+  const groups: SourceTable[][] = []
+  for (const source of sources) {
+    const group = groups.find(existing => sameColumns(existing[0].table, source.table))
+    if (group) group.push(source)
+    else groups.push([source])
+  }
+
+  const parts = groups.map(group => ({
+    fileNames: group.map(source => source.fileName),
+    table: group.length > 1 ? unionTables(group) : group[0].table
+  }))
+
+  // The largest table is the base; the others are joined onto it
+  parts.sort((a, b) => b.table.rows.length - a.table.rows.length)
+  const [base, ...others] = parts
+
+  const steps: string[] = [
+    base.fileNames.length > 1
+      ? `stacked ${base.fileNames.join(', ')} (${SOURCE_FILE_COLUMN} column identifies each file)`
+      : `base file ${base.fileNames[0]}`
+  ]
+  const skippedFiles: string[] = []
+  let table = base.table
+
+  for (const part of others) {
+    const keys = detectJoinKeys(table, part.table)
+    if (!keys) {
+      skippedFiles.push(...part.fileNames)
+      steps.push(`could not join ${part.fileNames.join(', ')} (no shared key)`)
+      continue
+    }
+    table = joinTables(table, part.table, keys, fileLabel(part.fileNames[0]))
+    steps.push(`joined ${part.fileNames.join(', ')} on ${keys.join(' + ')}`)
+  }
+
+  return { table, description: steps.join('; '), skippedFiles }
+}
@@ -0,0 +1,253 @@
+import { readFile } from 'fs/promises'
+import { db } from '@/lib/db'
+import { CellValue, parseFarmDataBuffer, selectPrimarySheet } from '@/lib/farm-data/parser'
+import { AdaptedTable, adaptTable } from '@/lib/farm-data/adapters'
+import { parseDateValue } from '@/lib/farm-data/analysis'
+
+// Processing of uploaded farm data: the queued job parses the stored file,
+// records its column schema and source mapping, then ingests it into the herd
+// models (Animal, Lactation, TestDay, HerdEvent). Rows are upserted by cow ID
+// and date, so uploading overlapping exports updates records instead of
+// duplicating them. Each file is ingested in one transaction so a failed run
+// leaves no partial records.
+
+export type HerdEventType = 'calving' | 'breeding' | 'preg_check' | 'dry_off' | 'treatment' | 'cull' | 'other'
+
+// Models written during ingestion, from the client or an interactive transaction
+type HerdClient = Pick<typeof db, 'animal' | 'lactation' | 'testDay' | 'herdEvent'>
+
+export interface IngestSummary {
+  animals: number
+  lactations: number
+  testDays: number
+  events: number
+  skippedRows: number
+}
+
+// Result of a farm_data job; herd is null for files without a cow ID column
+export interface FarmDataJobResult {
+  rowCount: number
+  sourceSystem: string | null
+  herd: IngestSummary | null
+}
+
+// Upper bound for one file's ingestion transaction
+const INGEST_TRANSACTION_TIMEOUT_MS = 10 * 60 * 1000
+
+// Event codes and words used by herd software, matched against the event column.
+// Pregnancy checks have their own type so a check and a service on the same day
+// are kept as separate events.
+const EVENT_PATTERNS: { type: HerdEventType; pattern: RegExp }[] = [
+  { type: 'calving', pattern: /\b(fresh|calv\w*|calf)\b/i },
+  { type: 'preg_check', pattern: /\b(preg\w*|open|recheck|pg|pd|confirmed)(?=\W|$)/i },
+  { type: 'breeding', pattern: /\b(bred|breed\w*|ai|insem\w*|serv\w*|heat)\b/i },
+  { type: 'dry_off', pattern: /\b(dry|dried)\b/i },
+  { type: 'cull', pattern: /\b(sold|died|dead|cull\w*|slaughter\w*)\b/i },
+  { type: 'treatment', pattern: /\b(mast\w*|treat\w*|metr\w*|keto\w*|lame\w*|lda|rda|da|rp|milk ?fever|pneu\w*|scour\w*|sick|vacc\w*|med\w*)\b/i }
+]
+
+export function classifyEvent(label: string): HerdEventType {
+  return EVENT_PATTERNS.find(({ pattern }) => pattern.test(label))?.type || 'other'
+}
+
+function toNumber(value: CellValue | undefined): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (value === null || value === undefined) return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function toDate(value: CellValue | undefined): Date | null {
+  if (value === undefined) return null
+  const time = parseDateValue(value)
+  return time === null ? null : new Date(time)
+}
+
+function toText(value: CellValue | undefined): string | null {
+  if (value === null || value === undefined) return null
+  const text = String(value).trim()
+  return text === '' ? null : text
+}
+
+// Ingest an adapted table (canonical column names) into the herd models
+export async function ingestHerdData(
+  sourceFileId: string,
+  adapted: AdaptedTable,
+  client: HerdClient = db
+): Promise<IngestSummary> {
+  const summary: IngestSummary = { animals: 0, lactations: 0, testDays: 0, events: 0, skippedRows: 0 }
+  if (!adapted.mapping.cow_id) return { ...summary, skippedRows: adapted.table.rows.length }
+
+  const animalIds = new Map<string, string>()
+  const lactationIds = new Map<string, string>()
+  const seenEvents = new Set<string>()
+
+  const upsertEvent = async (
+    animalId: string,
+    eventType: HerdEventType,
+    eventDate: Date,
+    lactationNumber: number | null,
+    details: string | null
+  ) => {
+    const key = `${animalId}:${eventType}:${eventDate.getTime()}`
+    if (seenEvents.has(key) && !details) return
+    seenEvents.add(key)
+
+    await client.herdEvent.upsert({
+      where: { animalId_eventType_eventDate: { animalId, eventType, eventDate } },
+      create: { animalId, eventType, eventDate, lactationNumber, details, sourceFileId },
+      update: { lactationNumber: lactationNumber ?? undefined, details: details ?? undefined, sourceFileId }
+    })
+    summary.events++
+  }
+
+  for (const row of adapted.table.rows) {
+    const cowId = toText(row.cow_id)
+    if (!cowId) {
+      summary.skippedRows++
+      continue
+    }
+
+    const birthDate = toDate(row.birth_date)
+    const breed = toText(row.breed)
+
+    const knownAnimalId = animalIds.get(cowId)
+    let animalId: string
+    if (!knownAnimalId || birthDate || breed) {
+      const animal = await client.animal.upsert({
+        where: { cowId },
+        create: { cowId, birthDate, breed },
+        update: { birthDate: birthDate ?? undefined, breed: breed ?? undefined }
+      })
+      if (!knownAnimalId) summary.animals++
+      animalId = animal.id
+      animalIds.set(cowId, animalId)
+    } else {
+      animalId = knownAnimalId
+    }
+
+    const lactationNumber = toNumber(row.lactation)
+    const calvingDate = toDate(row.calving_date)
+    const dryDate = toDate(row.dry_date)
+
+    let lactationId: string | null = null
+    if (lactationNumber !== null && Number.isInteger(lactationNumber) && lactationNumber >= 0) {
+      const key = `${animalId}:${lactationNumber}`
+      const knownLactationId = lactationIds.get(key)
+      lactationId = knownLactationId || null
+      if (!knownLactationId || calvingDate || dryDate) {
+        const lactation = await client.lactation.upsert({
+          where: { animalId_number: { animalId, number: lactationNumber } },
+          create: { animalId, number: lactationNumber, calvingDate, dryOffDate: dryDate },
+          update: { calvingDate: calvingDate ?? undefined, dryOffDate: dryDate ?? undefined }
+        })
+        if (!knownLactationId) summary.lactations++
+        lactationId = lactation.id
+        lactationIds.set(key, lactation.id)
+      }
+    }
+
+    const date = toDate(row.test_date)
+    const eventLabel = toText(row.event)
+    const lactationForEvent = lactationNumber !== null && Number.isInteger(lactationNumber) ? lactationNumber : null
+
+    // Calving and dry-off dates on animal lists are recorded as events too
+    if (calvingDate) await upsertEvent(animalId, 'calving', calvingDate, lactationForEvent, null)
+    if (dryDate) await upsertEvent(animalId, 'dry_off', dryDate, lactationForEvent, null)
+
+    if (eventLabel) {
+      if (!date) {
+        summary.skippedRows++
+        continue
+      }
+      const eventType = classifyEvent(eventLabel)
+      const remark = toText(row.remark)
+      await upsertEvent(animalId, eventType, date, lactationForEvent, remark ? `${eventLabel}: ${remark}` : eventLabel)
+
+      if (eventType === 'cull') {
+        await client.animal.update({ where: { id: animalId }, data: { status: 'culled' } })
+      }
+      continue
+    }
+
+    const dim = toNumber(row.dim)
+    const milk = toNumber(row.milk)
+    const fatPct = toNumber(row.fat_pct)
+    const proteinPct = toNumber(row.protein_pct)
+    const scc = toNumber(row.scc)
+
+    // Current-status lists have no test date; their yields are not dated test-day records
+    if (!date || [milk, fatPct, proteinPct, scc].every(value => value === null)) continue
+
+    const values = {
+      lactationId,
+      dim: dim !== null ? Math.round(dim) : null,
+      milk,
+      fatPct,
+      proteinPct,
+      scc,
+      sourceFileId
+    }
+
+    await client.testDay.upsert({
+      where: { animalId_testDate: { animalId, testDate: date } },
+      create: { animalId, testDate: date, ...values },
+      update: values
+    })
+    summary.testDays++
+  }
+
+  return summary
+}
+
+// Parse a stored farm data file, save its schema and ingest it into the herd models, run by the ingestion queue
+export async function ingestFarmDataFile(
+  fileId: string,
+  onProgress: (progress: number, stage: string) => Promise<void> = async () => {}
+): Promise<FarmDataJobResult> {
+  const farmDataFile = await db.farmDataFile.findUnique({ where: { id: fileId } })
+  if (!farmDataFile) throw new Error('Farm data file not found')
+
+  await onProgress(0.05, 'Parsing file')
+  const parsed = parseFarmDataBuffer(await readFile(farmDataFile.filePath), farmDataFile.fileName)
+  const primarySheet = selectPrimarySheet(parsed, farmDataFile.primarySheet || undefined)
+  if (!primarySheet) throw new Error('No data rows were found in this file')
+
+  // sourceSystem holds the upload's override until detection has run
+  const adapted = adaptTable(primarySheet.table, farmDataFile.sourceSystem)
+  await db.farmDataFile.update({
+    where: { id: farmDataFile.id },
+    data: {
+      fileType: parsed.fileType,
+      rowCount: primarySheet.table.rows.length,
+      columns: JSON.stringify(primarySheet.table.columns),
+      columnSchema: JSON.stringify(primarySheet.schema),
+      sheets: JSON.stringify(parsed.sheets.map(sheet => ({
+        name: sheet.name,
+        headerRow: sheet.headerRow,
+        rowCount: sheet.table.rows.length,
+        columns: sheet.table.columns
+      }))),
+      primarySheet: primarySheet.name,
+      sourceSystem: adapted.sourceSystem,
+      columnMapping: JSON.stringify({ mapping: adapted.mapping, unmappedColumns: adapted.unmappedColumns })
+    }
+  })
+
+  const result: FarmDataJobResult = { rowCount: primarySheet.table.rows.length, sourceSystem: adapted.sourceName, herd: null }
+  // Files without a cow ID are kept for analysis only
+  if (!adapted.mapping.cow_id) return result
+
+  // SQLite holds the write lock for the whole transaction, so progress is reported before it starts
+  await onProgress(0.1, `Ingesting ${adapted.table.rows.length} rows`)
+  const summary: IngestSummary = await db.$transaction(
+    (tx: HerdClient) => ingestHerdData(farmDataFile.id, adapted, tx),
+    { timeout: INGEST_TRANSACTION_TIMEOUT_MS }
+  )
+  await db.farmDataFile.update({
+    where: { id: farmDataFile.id },
+    data: { ingestedAt: new Date(), ingestSummary: JSON.stringify(summary) }
+  })
+
+  return { ...result, herd: summary }
+}
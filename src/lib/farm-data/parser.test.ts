@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest'
+import * as XLSX from 'xlsx'
+import {
+  buildTable,
+  coerceCell,
+  detectDelimiter,
+  detectHeaderRow,
+  inferColumnSchema,
+  isIdColumn,
+  parseCSVRecords,
+  parseFarmDataBuffer,
+  selectPrimarySheet
+} from '@/lib/farm-data/parser'
+
+describe('parseCSVRecords', () => {
+  it('handles quoted fields, escaped quotes and CRLF line endings', () => {
+    const text = 'cow,remark\r\n101,"sore, left hind"\r\n102,"said ""ok"""\r\n\r\n'
+    expect(parseCSVRecords(text)).toEqual([
+      ['cow', 'remark'],
+      ['101', 'sore, left hind'],
+      ['102', 'said "ok"']
+    ])
+  })
+})
+
+describe('detectDelimiter', () => {
+  it('picks the delimiter most lines agree on', () => {
+    expect(detectDelimiter('cow;milk;fat\n101;32,5;4,1\n102;28;3,9')).toBe(';')
+    expect(detectDelimiter('cow\tmilk\n101\t32.5')).toBe('\t')
+    expect(detectDelimiter('cow,milk\n101,32.5')).toBe(',')
+  })
+})
+
+describe('coerceCell', () => {
+  it('converts numbers and empty markers', () => {
+    expect(coerceCell('32.5')).toBe(32.5)
+    expect(coerceCell('1,234.5')).toBe(1234.5)
+    expect(coerceCell('N/A')).toBeNull()
+    expect(coerceCell('  ')).toBeNull()
+    expect(coerceCell('Holstein')).toBe('Holstein')
+  })
+
+  it('reads decimal commas only when asked', () => {
+    expect(coerceCell('1.234,5', true)).toBe(1234.5)
+    expect(coerceCell('32,5', false)).toBe('32,5')
+  })
+
+  it('keeps leading-zero values as text', () => {
+    expect(coerceCell('00123')).toBe('00123')
+    expect(coerceCell('0')).toBe(0)
+    expect(coerceCell('0.5')).toBe(0.5)
+  })
+})
+
+describe('isIdColumn', () => {
+  it('recognises identifier headers', () => {
+    expect(isIdColumn('Cow ID')).toBe(true)
+    expect(isIdColumn('Ear Tag')).toBe(true)
+    expect(isIdColumn('EID')).toBe(true)
+    expect(isIdColumn('Milk')).toBe(false)
+    expect(isIdColumn('Identity check')).toBe(false)
+  })
+})
+
+describe('buildTable', () => {
+  it('skips report title rows above the header', () => {
+    const records = [
+      ['Herd test report', null, null],
+      [null, null, null],
+      ['Cow', 'Milk', 'Fat'],
+      [101, 32.5, 4.1],
+      [102, 28, 3.9]
+    ]
+    expect(detectHeaderRow(records)).toBe(2)
+
+    const { table, headerRow } = buildTable(records)
+    expect(headerRow).toBe(2)
+    expect(table.columns).toEqual(['Cow', 'Milk', 'Fat'])
+    expect(table.rows[0]).toEqual({ Cow: '101', Milk: 32.5, Fat: 4.1 })
+  })
+
+  it('names blank headers and numbers duplicate ones', () => {
+    const { table } = buildTable([['Milk', 'Milk', null], [30, 31, 'x']])
+    expect(table.columns).toEqual(['Milk', 'Milk_2', 'column_3'])
+  })
+})
+
+describe('inferColumnSchema', () => {
+  it('infers column types and ranges', () => {
+    const { table } = buildTable([
+      ['Cow ID', 'Milk', 'Test Date', 'Dry'],
+      ['0101', 32.5, '2024-05-01', 'no'],
+      ['0102', 28, '2024-06-01', 'yes'],
+      ['0103', null, '2024-04-01', 'no']
+    ])
+    const schema = Object.fromEntries(inferColumnSchema(table).map(column => [column.name, column]))
+
+    expect(schema['Cow ID'].type).toBe('text')
+    expect(schema.Milk).toMatchObject({ type: 'number', nullCount: 1, min: 28, max: 32.5 })
+    expect(schema['Test Date']).toMatchObject({ type: 'date', min: '2024-04-01', max: '2024-06-01' })
+    expect(schema.Dry.type).toBe('boolean')
+  })
+})
+
+describe('parseFarmDataBuffer', () => {
+  it('parses semicolon CSV with decimal commas and a BOM', () => {
+    const parsed = parseFarmDataBuffer(Buffer.from('\uFEFFCow;Milk\n00123;32,5\n124;28'), 'test.csv')
+    expect(parsed.fileType).toBe('csv')
+    expect(parsed.delimiter).toBe(';')
+    expect(parsed.sheets[0].table.rows).toEqual([
+      { Cow: '00123', Milk: 32.5 },
+      { Cow: '124', Milk: 28 }
+    ])
+  })
+
+  it('parses every workbook sheet and keeps zero-padded IDs as displayed', () => {
+    const workbook = XLSX.utils.book_new()
+    const tests = XLSX.utils.aoa_to_sheet([['Cow ID', 'Milk'], [123, 32.5], [124, 28], [125, 30]])
+    tests.A2.z = '00000'
+    XLSX.utils.book_append_sheet(workbook, tests, 'Tests')
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Cow ID', 'Pen'], [123, 'A']]), 'Pens')
+    const buffer: Buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })
+
+    const parsed = parseFarmDataBuffer(buffer, 'herd.xlsx')
+    expect(parsed.fileType).toBe('excel')
+    expect(parsed.sheets.map(sheet => sheet.name)).toEqual(['Tests', 'Pens'])
+
+    const primary = selectPrimarySheet(parsed)!
+    expect(primary.name).toBe('Tests')
+    expect(primary.table.rows.map(row => row['Cow ID'])).toEqual(['00123', '124', '125'])
+    expect(selectPrimarySheet(parsed, 'Pens')!.table.rows).toEqual([{ 'Cow ID': '123', Pen: 'A' }])
+  })
+})
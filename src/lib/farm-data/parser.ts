@@ -0,0 +1,327 @@
+import { readFile } from 'fs/promises'
+import * as XLSX from 'xlsx'
+
+// In-process parsing of uploaded farm data files into typed tables.
+// Handles CSV dialects (comma, semicolon, tab, pipe; quoted fields; BOM),
+// multi-sheet XLSX/XLS workbooks, report title rows above the header, and
+// per-column type inference. Identifier columns (cow ID, ear tag) stay text so
+// IDs with leading zeros survive.
+
+export type CellValue = string | number | null
+
+export interface DataTable {
+  columns: string[]
+  rows: Record<string, CellValue>[]
+}
+
+export type ColumnType = 'integer' | 'number' | 'date' | 'boolean' | 'text' | 'empty'
+
+export interface ColumnSchema {
+  name: string
+  type: ColumnType
+  nullCount: number
+  distinctCount: number
+  min: CellValue
+  max: CellValue
+}
+
+export interface ParsedSheet {
+  name: string
+  headerRow: number
+  table: DataTable
+  schema: ColumnSchema[]
+}
+
+export interface ParsedFarmData {
+  fileType: 'csv' | 'excel'
+  delimiter?: string
+  sheets: ParsedSheet[]
+}
+
+const DELIMITERS = [',', ';', '\t', '|']
+const HEADER_SCAN_ROWS = 15
+// Headers of identifier columns, matched on the header with spaces and punctuation removed
+const ID_COLUMN_NAMES = new Set([
+  'id', 'cowid', 'cow', 'animalid', 'animal', 'tag', 'eartag', 'cownumber', 'cowno', 'eid', 'rfid', 'regno', 'registrationnumber'
+])
+const ID_COLUMN_PATTERN = /\b(id|tag|eid|rfid)\b/i
+// Integers written with leading zeros ("00123") are identifiers or codes, not quantities
+const LEADING_ZERO_PATTERN = /^0\d+$/
+const DATE_PATTERN = /^\d{4}-\d{1,2}-\d{1,2}([ T]\d{1,2}:\d{2}(:\d{2})?)?$|^\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}$/
+
+// Split CSV text into records, honouring quoted fields and escaped quotes
+export function parseCSVRecords(text: string, delimiter: string = ','): string[][] {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      record.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  return records.filter(r => r.some(value => value.trim() !== ''))
+}
+
+// Pick the delimiter that splits the first lines into the most consistent field counts
+export function detectDelimiter(text: string): string {
+  const sample = text.split(/\r?\n/).filter(line => line.trim() !== '').slice(0, 20)
+  let best = ','
+  let bestScore = 0
+
+  for (const delimiter of DELIMITERS) {
+    const counts = sample.map(line => parseCSVRecords(line, delimiter)[0]?.length || 0)
+    const widest = Math.max(0, ...counts)
+    if (widest < 2) continue
+
+    // Reward wide rows that most lines agree on
+    const agreeing = counts.filter(count => count === widest).length
+    const score = widest * agreeing
+    if (score > bestScore) {
+      best = delimiter
+      bestScore = score
+    }
+  }
+
+  return best
+}
+
+// Convert a raw cell into a number when it looks numeric, null when empty.
+// With decimalComma, European-style numbers ("1.234,5") are also recognised.
+export function coerceCell(raw: unknown, decimalComma: boolean = false): CellValue {
+  if (raw === null || raw === undefined) return null
+  if (typeof raw === 'number') return Number.isFinite(raw) ? raw : null
+  if (typeof raw === 'boolean') return raw ? 'true' : 'false'
+  if (raw instanceof Date) return formatDate(raw)
+
+  const value = String(raw).trim()
+  if (value === '' || /^(na|n\/a|null|nan|-)$/i.test(value)) return null
+  if (LEADING_ZERO_PATTERN.test(value)) return value
+  if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(value)) return Number(value)
+  // Thousands separators ("1,234.5") in quoted numeric fields
+  if (/^[-+]?\d{1,3}(,\d{3})+(\.\d+)?$/.test(value)) return Number(value.replace(/,/g, ''))
+  if (decimalComma && /^[-+]?\d{1,3}(\.?\d{3})*,\d+$/.test(value)) {
+    return Number(value.replace(/\./g, '').replace(',', '.'))
+  }
+  return value
+}
+
+function formatDate(date: Date): string {
+  const iso = date.toISOString()
+  return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso.slice(0, 19).replace('T', ' ')
+}
+
+// Find the header row: the first wide row of mostly text labels followed by data
+export function detectHeaderRow(records: CellValue[][]): number {
+  const scan = records.slice(0, HEADER_SCAN_ROWS)
+  const width = (record: CellValue[]) => record.filter(cell => cell !== null).length
+  const widest = Math.max(0, ...scan.map(width))
+  if (widest === 0) return 0
+
+  for (let i = 0; i < scan.length; i++) {
+    const cells = scan[i].filter(cell => cell !== null)
+    const textCells = cells.filter(cell => typeof cell === 'string')
+    const next = scan[i + 1]
+
+    if (
+      cells.length >= Math.max(2, widest * 0.6) &&
+      textCells.length >= cells.length * 0.8 &&
+      (!next || width(next) >= cells.length * 0.5)
+    ) {
+      return i
+    }
+  }
+
+  return 0
+}
+
+// Whether a header names an identifier column
+export function isIdColumn(name: string): boolean {
+  return ID_COLUMN_NAMES.has(name.toLowerCase().replace(/[^a-z0-9]/g, '')) || ID_COLUMN_PATTERN.test(name)
+}
+
+// Build a table from records, using the detected header row for column names
+export function buildTable(records: CellValue[][]): { table: DataTable; headerRow: number } {
+  if (records.length === 0) return { table: { columns: [], rows: [] }, headerRow: 0 }
+
+  const headerRow = detectHeaderRow(records)
+  const header = records[headerRow]
+  const width = Math.max(header.length, ...records.slice(headerRow + 1, headerRow + 50).map(record => record.length))
+
+  const seen = new Map<string, number>()
+  const columns: string[] = []
+  for (let index = 0; index < width; index++) {
+    const base = header[index] !== null && header[index] !== undefined && String(header[index]).trim() !== ''
+      ? String(header[index]).trim()
+      : `column_${index + 1}`
+    const count = seen.get(base) || 0
+    seen.set(base, count + 1)
+    columns.push(count === 0 ? base : `${base}_${count + 1}`)
+  }
+
+  const idColumns = new Set(columns.filter(isIdColumn))
+  const rows = records
+    .slice(headerRow + 1)
+    .filter(record => record.some(cell => cell !== null))
+    .map(record => {
+      const row: Record<string, CellValue> = {}
+      columns.forEach((column, index) => {
+        const cell = record[index] ?? null
+        row[column] = idColumns.has(column) && typeof cell === 'number' ? String(cell) : cell
+      })
+      return row
+    })
+
+  return { table: { columns, rows }, headerRow }
+}
+
+// Infer each column's type, null count and value range
+export function inferColumnSchema(table: DataTable): ColumnSchema[] {
+  return table.columns.map(name => {
+    const values = table.rows.map(row => row[name])
+    const present = values.filter((value): value is string | number => value !== null)
+    const schema: ColumnSchema = {
+      name,
+      type: 'empty',
+      nullCount: values.length - present.length,
+      distinctCount: new Set(present.map(String)).size,
+      min: null,
+      max: null
+    }
+
+    if (present.length === 0) return schema
+
+    const numbers = present.filter((value): value is number => typeof value === 'number')
+    const strings = present.filter((value): value is string => typeof value === 'string')
+
+    if (numbers.length >= present.length * 0.95) {
+      schema.type = numbers.every(Number.isInteger) ? 'integer' : 'number'
+      schema.min = numbers.reduce((min, value) => Math.min(min, value), Infinity)
+      schema.max = numbers.reduce((max, value) => Math.max(max, value), -Infinity)
+    } else if (strings.filter(value => DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value))).length >= present.length * 0.9) {
+      const dates = strings.filter(value => !Number.isNaN(Date.parse(value)))
+      schema.type = 'date'
+      schema.min = dates.reduce((min, value) => (Date.parse(value) < Date.parse(min) ? value : min))
+      schema.max = dates.reduce((max, value) => (Date.parse(value) > Date.parse(max) ? value : max))
+    } else if (strings.every(value => /^(true|false|yes|no|y|n)$/i.test(value))) {
+      schema.type = 'boolean'
+    } else {
+      schema.type = 'text'
+    }
+
+    return schema
+  })
+}
+
+// Parse delimited text (CSV, TSV, semicolon-separated)
+export function parseDelimitedText(text: string): { records: CellValue[][]; delimiter: string } {
+  const content = text.replace(/^\uFEFF/, '')
+  const delimiter = detectDelimiter(content)
+  // Semicolon-separated exports typically come from locales using decimal commas
+  const decimalComma = delimiter === ';'
+  const records = parseCSVRecords(content, delimiter).map(record => record.map(cell => coerceCell(cell, decimalComma)))
+  return { records, delimiter }
+}
+
+// Parse every sheet of an XLSX/XLS workbook. Numeric cells displayed with
+// leading zeros (a "00000" number format on IDs) keep their displayed text.
+export function parseWorkbook(buffer: Buffer): { name: string; records: CellValue[][] }[] {
+  const workbook = XLSX.read(buffer, { type: 'buffer', cellDates: true })
+
+  return workbook.SheetNames.map(name => {
+    const options = { header: 1 as const, defval: null, blankrows: false }
+    const rows: unknown[][] = XLSX.utils.sheet_to_json(workbook.Sheets[name], { ...options, raw: true })
+    const displayed: unknown[][] = XLSX.utils.sheet_to_json(workbook.Sheets[name], { ...options, raw: false })
+
+    return {
+      name,
+      records: rows.map((row, rowIndex) => row.map((cell, index) => {
+        const text = displayed[rowIndex]?.[index]
+        return typeof cell === 'number' && typeof text === 'string' && LEADING_ZERO_PATTERN.test(text.trim())
+          ? text.trim()
+          : coerceCell(cell)
+      }))
+    }
+  })
+}
+
+export function isExcelFile(fileName: string): boolean {
+  return /\.(xlsx|xlsm|xls)$/i.test(fileName)
+}
+
+// Parse an uploaded farm data file from its bytes
+export function parseFarmDataBuffer(buffer: Buffer, fileName: string): ParsedFarmData {
+  const toSheet = (name: string, records: CellValue[][]): ParsedSheet => {
+    const { table, headerRow } = buildTable(records)
+    return { name, headerRow, table, schema: inferColumnSchema(table) }
+  }
+
+  if (isExcelFile(fileName)) {
+    return {
+      fileType: 'excel',
+      sheets: parseWorkbook(buffer)
+        .map(sheet => toSheet(sheet.name, sheet.records))
+        .filter(sheet => sheet.table.columns.length > 0)
+    }
+  }
+
+  const { records, delimiter } = parseDelimitedText(buffer.toString('utf-8'))
+  return {
+    fileType: 'csv',
+    delimiter,
+    sheets: [toSheet('data', records)]
+  }
+}
+
+// The sheet used for analysis: the named sheet, else the one with the most rows
+export function selectPrimarySheet(parsed: ParsedFarmData, sheetName?: string): ParsedSheet | null {
+  if (sheetName) {
+    const named = parsed.sheets.find(sheet => sheet.name === sheetName)
+    if (named) return named
+  }
+  return parsed.sheets.reduce<ParsedSheet | null>(
+    (best, sheet) => (!best || sheet.table.rows.length > best.table.rows.length ? sheet : best),
+    null
+  )
+}
+
+// Load an uploaded farm data file into a table
+export async function loadDataTable(filePath: string, fileName: string, sheetName?: string): Promise<DataTable> {
+  const buffer = await readFile(filePath)
+  const sheet = selectPrimarySheet(parseFarmDataBuffer(buffer, fileName), sheetName)
+  return sheet ? sheet.table : { columns: [], rows: [] }
+}
@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getHerdCalendar } from '@/lib/herd/calendar'
+
+const { events } = vi.hoisted(() => ({ events: [] as any[] }))
+vi.mock('@/lib/db', () => ({
+  db: { herdEvent: { findMany: async () => [...events].sort((a, b) => a.eventDate - b.eventDate) } }
+}))
+
+const day = (date: string) => new Date(`${date}T00:00:00Z`)
+function event(cowId: string, eventType: string, date: string, details: string | null = null) {
+  events.push({ eventType, eventDate: day(date), details, animal: { cowId } })
+}
+
+const calendar = (from: string, to: string, today = from) => getHerdCalendar({ from: day(from), to: day(to), today: day(today) })
+
+beforeEach(() => {
+  events.length = 0
+})
+
+describe('getHerdCalendar', () => {
+  it('projects dry-off and calving from the conceiving service', async () => {
+    event('1', 'calving', '2024-01-01')
+    event('1', 'breeding', '2024-03-01', 'BRED: 7HO100')
+    event('1', 'preg_check', '2024-04-05', 'PREG')
+
+    const { events: projected } = await calendar('2024-01-01', '2024-12-31')
+    expect(projected).toEqual([
+      { cowId: '1', type: 'dry_off', date: '2024-10-10', basis: 'bred 2024-03-01 to 7HO100' },
+      { cowId: '1', type: 'expected_calving', date: '2024-12-09', basis: 'bred 2024-03-01 to 7HO100' }
+    ])
+  })
+
+  it('projects checks, waiting period ends and rebreeding for cows not yet pregnant', async () => {
+    event('1', 'calving', '2024-01-01')
+    event('1', 'breeding', '2024-03-01', 'BRED')
+    event('2', 'calving', '2024-02-01')
+    event('3', 'calving', '2024-01-10')
+    event('3', 'breeding', '2024-03-01', 'BRED')
+    event('3', 'preg_check', '2024-04-02', 'OPEN')
+
+    const { events: projected } = await calendar('2024-01-01', '2024-12-31')
+    expect(projected.map(projection => [projection.cowId, projection.type, projection.date])).toEqual([
+      ['2', 'vwp_end', '2024-03-22'],
+      ['3', 'rebreed', '2024-03-22'],
+      ['1', 'preg_check', '2024-04-02']
+    ])
+  })
+
+  it('skips culled cows and dry-offs already recorded', async () => {
+    event('1', 'calving', '2024-01-01')
+    event('1', 'breeding', '2024-03-01', 'BRED')
+    event('1', 'preg_check', '2024-04-05', 'PREG')
+    event('1', 'dry_off', '2024-10-01')
+    event('2', 'calving', '2024-01-01')
+    event('2', 'cull', '2024-02-01', 'SOLD')
+
+    const { events: projected } = await calendar('2024-01-01', '2024-12-31')
+    expect(projected.map(projection => projection.type)).toEqual(['expected_calving'])
+  })
+
+  it('alerts on events due soon or overdue, regardless of the listed range', async () => {
+    event('1', 'calving', '2024-01-01')
+    event('1', 'breeding', '2024-03-01', 'BRED')
+    event('1', 'preg_check', '2024-04-05', 'PREG')
+    event('2', 'calving', '2024-08-01')
+    event('3', 'calving', '2024-08-30')
+    event('4', 'calving', '2023-01-01')
+
+    const result = await calendar('2024-11-01', '2024-11-30', '2024-10-05')
+    expect(result.events.map(projection => projection.type)).toEqual([])
+    expect(result.alerts.map(alert => [alert.cowId, alert.type, alert.status, alert.daysUntil])).toEqual([
+      ['2', 'vwp_end', 'overdue', -15],
+      ['1', 'dry_off', 'due', 5]
+    ])
+  })
+})
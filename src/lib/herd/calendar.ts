@@ -0,0 +1,142 @@
+import { CowHistory, DEFAULT_VWP, loadCowHistories } from '@/lib/herd/reproduction'
+
+// Breeding and transition calendar projected from calving and breeding
+// history: end of the voluntary waiting period for cows not yet bred, the next
+// breeding for cows diagnosed open, pregnancy checks for unchecked services,
+// and dry-off and expected calving dates for cows confirmed pregnant.
+// Projections due soon or already past are also returned as alerts.
+
+export type CalendarEventType = 'vwp_end' | 'rebreed' | 'preg_check' | 'dry_off' | 'expected_calving'
+
+export interface CalendarEvent {
+  cowId: string
+  type: CalendarEventType
+  date: string
+  // The recorded event the projection is based on
+  basis: string
+}
+
+export type CalendarAlertStatus = 'due' | 'overdue'
+
+export interface CalendarAlert extends CalendarEvent {
+  status: CalendarAlertStatus
+  // Negative when the projected date has passed
+  daysUntil: number
+}
+
+export interface HerdCalendar {
+  from: string
+  to: string
+  events: CalendarEvent[]
+  // Projected events within the alert window or past their date, most overdue first
+  alerts: CalendarAlert[]
+}
+
+export const CALENDAR_EVENT_LABELS: Record<CalendarEventType, string> = {
+  vwp_end: 'Voluntary waiting period ends',
+  rebreed: 'Open, due for breeding',
+  preg_check: 'Pregnancy check',
+  dry_off: 'Dry off',
+  expected_calving: 'Expected calving'
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+export const GESTATION_DAYS = 283
+export const DRY_PERIOD_DAYS = 60
+// Days after a service when pregnancy is first checked
+export const PREG_CHECK_DAYS = 32
+// Days after an unsuccessful service when the cow is next expected in heat
+export const REBREED_DAYS = 21
+// Days ahead of today that projected events raise a due alert
+export const DEFAULT_ALERT_DAYS = 7
+// Older projections usually mean missing records rather than a late cow
+const MAX_OVERDUE_DAYS = 90
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS)
+const isoDate = (date: Date) => date.toISOString().slice(0, 10)
+
+// Project the next transition and breeding dates for one cow
+function projectCow(history: CowHistory, vwp: number): CalendarEvent[] {
+  if (history.cullDate) return []
+
+  const lastCalving = history.calvings[history.calvings.length - 1] || null
+  const services = history.services.filter(service => !lastCalving || service.date > lastCalving)
+  const conception = [...services].reverse().find(service => service.outcome === 'pregnant')
+  const lastService = services[services.length - 1]
+  const events: CalendarEvent[] = []
+
+  if (conception) {
+    const expectedCalving = addDays(conception.date, GESTATION_DAYS)
+    const bred = `bred ${isoDate(conception.date)}${conception.sire ? ` to ${conception.sire}` : ''}`
+    const driedOff = history.dryOffs.some(date => date > conception.date)
+
+    // Heifers have no lactation to dry off
+    if (lastCalving && !driedOff) {
+      events.push({ cowId: history.cowId, type: 'dry_off', date: isoDate(addDays(expectedCalving, -DRY_PERIOD_DAYS)), basis: bred })
+    }
+    events.push({ cowId: history.cowId, type: 'expected_calving', date: isoDate(expectedCalving), basis: bred })
+  } else if (lastService?.outcome === 'pending') {
+    events.push({
+      cowId: history.cowId,
+      type: 'preg_check',
+      date: isoDate(addDays(lastService.date, PREG_CHECK_DAYS)),
+      basis: `service ${lastService.serviceNumber} on ${isoDate(lastService.date)}`
+    })
+  } else if (lastService?.outcome === 'open') {
+    const vwpEnd = lastCalving ? addDays(lastCalving, vwp) : lastService.date
+    const nextHeat = addDays(lastService.date, REBREED_DAYS)
+    events.push({
+      cowId: history.cowId,
+      type: 'rebreed',
+      date: isoDate(nextHeat > vwpEnd ? nextHeat : vwpEnd),
+      basis: `open after service ${lastService.serviceNumber} on ${isoDate(lastService.date)}`
+    })
+  } else if (lastCalving && services.length === 0) {
+    events.push({
+      cowId: history.cowId,
+      type: 'vwp_end',
+      date: isoDate(addDays(lastCalving, vwp)),
+      basis: `calved ${isoDate(lastCalving)}`
+    })
+  }
+
+  return events
+}
+
+// Projected events between two dates, in date order, with due and overdue alerts as of today
+export async function getHerdCalendar(options: {
+  from: Date
+  to: Date
+  types?: CalendarEventType[]
+  cowId?: string
+  voluntaryWaitingPeriod?: number
+  alertDays?: number
+  today?: Date
+}): Promise<HerdCalendar> {
+  const from = isoDate(options.from)
+  const to = isoDate(options.to)
+  const today = isoDate(options.today ?? new Date())
+  const alertDays = options.alertDays ?? DEFAULT_ALERT_DAYS
+  const histories = await loadCowHistories()
+
+  const projected = histories
+    .filter(history => !options.cowId || history.cowId === options.cowId)
+    .flatMap(history => projectCow(history, options.voluntaryWaitingPeriod ?? DEFAULT_VWP))
+    .filter(event => !options.types || options.types.includes(event.type))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.cowId.localeCompare(b.cowId, undefined, { numeric: true }))
+
+  // Projections are only made for events not yet recorded, so a past date is overdue
+  const alerts: CalendarAlert[] = projected
+    .map(event => {
+      const daysUntil = Math.round((Date.parse(event.date) - Date.parse(today)) / DAY_MS)
+      return { ...event, status: (daysUntil < 0 ? 'overdue' : 'due') as CalendarAlertStatus, daysUntil }
+    })
+    .filter(alert => alert.daysUntil >= -MAX_OVERDUE_DAYS && alert.daysUntil <= alertDays)
+
+  return {
+    from,
+    to,
+    events: projected.filter(event => event.date >= from && event.date <= to),
+    alerts
+  }
+}
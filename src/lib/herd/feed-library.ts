@@ -0,0 +1,50 @@
+// Local feed library for ration formulation. Nutrient values are typical
+// book values on a dry matter basis (NRC 2001 style tables); costs are
+// as-fed prices per metric ton and should be adjusted to local prices.
+
+export type FeedCategory = 'forage' | 'concentrate' | 'byproduct'
+
+export interface Feed {
+  id: string
+  name: string
+  category: FeedCategory
+  // Dry matter, % as fed
+  dmPct: number
+  // Crude protein and neutral detergent fiber, % of DM
+  cpPct: number
+  ndfPct: number
+  // Net energy for lactation, Mcal/kg DM
+  nelMcal: number
+  // USD per metric ton as fed
+  costPerTon: number
+  aliases: string[]
+}
+
+export const FEED_LIBRARY: Feed[] = [
+  { id: 'corn_silage', name: 'Corn silage', category: 'forage', dmPct: 35, cpPct: 8.0, ndfPct: 42, nelMcal: 1.45, costPerTon: 60, aliases: ['corn silage', 'maize silage'] },
+  { id: 'alfalfa_haylage', name: 'Alfalfa haylage', category: 'forage', dmPct: 40, cpPct: 20, ndfPct: 42, nelMcal: 1.30, costPerTon: 85, aliases: ['alfalfa haylage', 'alfalfa silage', 'haylage', 'lucerne silage'] },
+  { id: 'alfalfa_hay', name: 'Alfalfa hay', category: 'forage', dmPct: 89, cpPct: 19, ndfPct: 42, nelMcal: 1.30, costPerTon: 250, aliases: ['alfalfa hay', 'alfalfa', 'lucerne hay', 'lucerne'] },
+  { id: 'grass_silage', name: 'Grass silage', category: 'forage', dmPct: 35, cpPct: 14, ndfPct: 55, nelMcal: 1.30, costPerTon: 55, aliases: ['grass silage', 'grass haylage'] },
+  { id: 'grass_hay', name: 'Grass hay', category: 'forage', dmPct: 88, cpPct: 11, ndfPct: 60, nelMcal: 1.15, costPerTon: 180, aliases: ['grass hay', 'timothy hay', 'timothy', 'hay'] },
+  { id: 'wheat_straw', name: 'Wheat straw', category: 'forage', dmPct: 91, cpPct: 4, ndfPct: 78, nelMcal: 0.90, costPerTon: 100, aliases: ['wheat straw', 'straw'] },
+  { id: 'ground_corn', name: 'Ground corn', category: 'concentrate', dmPct: 88, cpPct: 9, ndfPct: 9.5, nelMcal: 2.00, costPerTon: 220, aliases: ['ground corn', 'corn grain', 'cracked corn', 'shelled corn', 'maize grain'] },
+  { id: 'high_moisture_corn', name: 'High moisture corn', category: 'concentrate', dmPct: 72, cpPct: 9, ndfPct: 10, nelMcal: 2.05, costPerTon: 180, aliases: ['high moisture corn', 'hmc'] },
+  { id: 'barley', name: 'Barley grain', category: 'concentrate', dmPct: 89, cpPct: 12.4, ndfPct: 20.8, nelMcal: 1.90, costPerTon: 210, aliases: ['barley grain', 'rolled barley', 'barley'] },
+  { id: 'soybean_meal', name: 'Soybean meal (48%)', category: 'concentrate', dmPct: 89, cpPct: 53, ndfPct: 9.8, nelMcal: 2.13, costPerTon: 450, aliases: ['soybean meal', 'soy meal', 'sbm', 'soya meal'] },
+  { id: 'canola_meal', name: 'Canola meal', category: 'concentrate', dmPct: 90, cpPct: 38, ndfPct: 29.8, nelMcal: 1.65, costPerTon: 340, aliases: ['canola meal', 'rapeseed meal'] },
+  { id: 'whole_cottonseed', name: 'Whole cottonseed', category: 'byproduct', dmPct: 90, cpPct: 23.5, ndfPct: 50.3, nelMcal: 1.95, costPerTon: 320, aliases: ['whole cottonseed', 'cottonseed'] },
+  { id: 'distillers_grains', name: 'Dried distillers grains', category: 'byproduct', dmPct: 90, cpPct: 30, ndfPct: 38, nelMcal: 2.00, costPerTon: 240, aliases: ['dried distillers grains', 'distillers grains', 'ddgs', 'ddg'] },
+  { id: 'beet_pulp', name: 'Beet pulp', category: 'byproduct', dmPct: 89, cpPct: 10, ndfPct: 47, nelMcal: 1.60, costPerTon: 230, aliases: ['beet pulp', 'sugar beet pulp'] },
+  { id: 'wheat_middlings', name: 'Wheat middlings', category: 'byproduct', dmPct: 89, cpPct: 18.5, ndfPct: 37, nelMcal: 1.70, costPerTon: 190, aliases: ['wheat middlings', 'wheat midds', 'midds'] }
+]
+
+// Feeds used when balancing without a feed list
+export const DEFAULT_RATION_FEEDS = ['corn_silage', 'alfalfa_haylage', 'ground_corn', 'soybean_meal']
+
+// Look up a feed by id, name or alias
+export function findFeed(nameOrId: string): Feed | undefined {
+  const key = nameOrId.trim().toLowerCase()
+  return FEED_LIBRARY.find(feed =>
+    feed.id === key.replace(/[\s-]+/g, '_') || feed.name.toLowerCase() === key || feed.aliases.includes(key)
+  )
+}
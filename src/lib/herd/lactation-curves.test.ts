@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from 'vitest'
+import { fitCurve, fitWilmink, fitWood, formatCurveReport, parityGroup, predictMilk } from '@/lib/herd/lactation-curves'
+
+vi.mock('@/lib/db', () => ({ db: {} }))
+
+const wood = (dim: number) => 20 * dim ** 0.2 * Math.exp(-0.004 * dim)
+const wilmink = (dim: number) => 40 - 15 * Math.exp(-0.05 * dim) - 0.05 * dim
+const sample = (curve: (dim: number) => number) => [10, 30, 60, 90, 150, 210, 270, 300].map(dim => ({ dim, milk: curve(dim) }))
+
+describe('parityGroup', () => {
+  it('groups lactations into 1, 2 and 3+', () => {
+    expect(parityGroup(1)).toBe('1')
+    expect(parityGroup(2)).toBe('2')
+    expect(parityGroup(5)).toBe('3+')
+    expect(parityGroup(0)).toBeNull()
+    expect(parityGroup(null)).toBeNull()
+  })
+})
+
+describe('fitWood', () => {
+  it('recovers the parameters of a Wood curve', () => {
+    const fit = fitWood(sample(wood))!
+
+    expect(fit.atypical).toBe(false)
+    expect(fit.params.a).toBeCloseTo(20, 6)
+    expect(fit.params.b).toBeCloseTo(0.2, 6)
+    expect(fit.params.c).toBeCloseTo(0.004, 8)
+    expect(fit.daysToPeak).toBe(50)
+    expect(fit.peakYield).toBeCloseTo(wood(50), 1)
+    expect(fit.r2).toBe(1)
+    expect(fit.points).toBe(8)
+  })
+
+  it('predicts from unrounded parameters', () => {
+    const fit = fitWood(sample(wood))!
+    expect(predictMilk(fit, 305)).toBeCloseTo(wood(305), 6)
+  })
+
+  it('flags curves that never peak and decline', () => {
+    const rising = fitWood([{ dim: 5, milk: 20 }, { dim: 15, milk: 25 }, { dim: 30, milk: 32 }])!
+    expect(rising.atypical).toBe(true)
+    expect(rising.params.c).toBeLessThanOrEqual(0)
+    expect(rising).toMatchObject({ peakYield: null, daysToPeak: null, persistency: null, projected305: null })
+
+    const falling = fitWood([{ dim: 10, milk: 40 }, { dim: 100, milk: 30 }, { dim: 200, milk: 22 }, { dim: 300, milk: 18 }])!
+    expect(falling.params.b).toBeLessThan(0)
+    expect(falling.atypical).toBe(true)
+  })
+
+  it('needs at least three usable points', () => {
+    expect(fitWood([{ dim: 10, milk: 30 }, { dim: 50, milk: 35 }, { dim: 0, milk: 20 }])).toBeNull()
+  })
+})
+
+describe('fitWilmink', () => {
+  it('recovers the parameters of a Wilmink curve', () => {
+    const fit = fitCurve(sample(wilmink), 'wilmink')!
+
+    expect(fit.model).toBe('wilmink')
+    expect(fit.params.a).toBeCloseTo(40, 6)
+    expect(fit.params.b).toBeCloseTo(-15, 6)
+    expect(fit.params.c).toBeCloseTo(-0.05, 8)
+    expect(fit.persistency).toBeCloseTo((wilmink(200) / fit.peakYield!) * 100, 0)
+    expect(predictMilk(fit, 150)).toBeCloseTo(wilmink(150), 6)
+  })
+
+  it('sums the daily curve over 305 days', () => {
+    const fit = fitWilmink(sample(wilmink))!
+    let total = 0
+    for (let dim = 1; dim <= 305; dim++) total += wilmink(dim)
+    expect(fit.projected305).toBe(Math.round(total))
+  })
+})
+
+describe('formatCurveReport', () => {
+  it('rounds parameters for output only', () => {
+    const fit = fitWood(sample(wood))!
+    const params = { ...fit.params }
+    const formatted = formatCurveReport({ model: 'wood', groups: [{ parityGroup: '1', cows: 1, fit }], cows: [] })
+
+    expect(formatted.groups[0].fit!.params).toEqual({ a: 20, b: 0.2, c: 0.004 })
+    expect(fit.params).toEqual(params)
+  })
+})
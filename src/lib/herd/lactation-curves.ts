@@ -0,0 +1,306 @@
+import { db } from '@/lib/db'
+
+// Lactation curve analytics over ingested test-day records. Wood's model
+// (y = a * t^b * e^(-c*t)) is fitted by log-linear least squares and
+// Wilmink's model (y = a + b * e^(-k*t) + c*t, k = 0.05) by linear least
+// squares, per cow lactation and per parity group. Wood fits without a peak
+// and decline (b < 0 or c <= 0) are flagged as atypical and get no summary.
+
+export type CurveModel = 'wood' | 'wilmink'
+export type ParityGroup = '1' | '2' | '3+'
+
+export interface CurvePoint {
+  dim: number
+  milk: number
+}
+
+export interface CurveFit {
+  model: CurveModel
+  // Unrounded so predictions follow the fitted curve; formatCurveReport rounds them for output
+  params: Record<string, number>
+  // The curve has no rise to a peak and decline, so it cannot be projected
+  atypical: boolean
+  peakYield: number | null
+  daysToPeak: number | null
+  // Wood: -(b + 1) * ln(c); Wilmink: yield at 200 DIM as a share of peak
+  persistency: number | null
+  projected305: number | null
+  r2: number
+  points: number
+}
+
+export interface CowCurve {
+  cowId: string
+  lactation: number | null
+  parityGroup: ParityGroup | null
+  fit: CurveFit | null
+  latestDim: number
+  latestMilk: number
+  // Parity group curve at the latest test DIM, and the cow's deviation from it
+  expectedMilk: number | null
+  deviationPct: number | null
+}
+
+export interface GroupCurve {
+  parityGroup: ParityGroup
+  cows: number
+  fit: CurveFit | null
+}
+
+export interface LactationCurveReport {
+  model: CurveModel
+  groups: GroupCurve[]
+  cows: CowCurve[]
+}
+
+const WILMINK_K = 0.05
+const MIN_POINTS = 3
+const MAX_DIM = 500
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function parityGroup(lactation: number | null): ParityGroup | null {
+  if (lactation === null || lactation < 1) return null
+  if (lactation === 1) return '1'
+  if (lactation === 2) return '2'
+  return '3+'
+}
+
+// Solve ordinary least squares (with intercept) via the normal equations
+function leastSquares(features: number[][], targets: number[]): number[] | null {
+  const width = features[0].length + 1
+  const matrix = Array.from({ length: width }, () => new Array(width + 1).fill(0))
+
+  features.forEach((row, index) => {
+    const x = [1, ...row]
+    for (let i = 0; i < width; i++) {
+      for (let j = 0; j < width; j++) matrix[i][j] += x[i] * x[j]
+      matrix[i][width] += x[i] * targets[index]
+    }
+  })
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < width; col++) {
+    let pivot = col
+    for (let row = col + 1; row < width; row++) {
+      if (Math.abs(matrix[row][col]) > Math.abs(matrix[pivot][col])) pivot = row
+    }
+    if (Math.abs(matrix[pivot][col]) < 1e-12) return null
+    ;[matrix[col], matrix[pivot]] = [matrix[pivot], matrix[col]]
+
+    for (let row = 0; row < width; row++) {
+      if (row === col) continue
+      const factor = matrix[row][col] / matrix[col][col]
+      for (let k = col; k <= width; k++) matrix[row][k] -= factor * matrix[col][k]
+    }
+  }
+
+  return matrix.map((row, index) => row[width] / row[index])
+}
+
+function rSquared(points: CurvePoint[], predict: (dim: number) => number): number {
+  const mean = points.reduce((sum, point) => sum + point.milk, 0) / points.length
+  const total = points.reduce((sum, point) => sum + (point.milk - mean) ** 2, 0)
+  const residual = points.reduce((sum, point) => sum + (point.milk - predict(point.dim)) ** 2, 0)
+  return total > 0 ? 1 - residual / total : 0
+}
+
+// Peak, 305-day total and yield at 200 DIM from the fitted daily curve
+function summarizeCurve(predict: (dim: number) => number) {
+  let peakYield = -Infinity
+  let daysToPeak = 1
+  let projected305 = 0
+
+  for (let dim = 1; dim <= 305; dim++) {
+    const milk = Math.max(0, predict(dim))
+    projected305 += milk
+    if (milk > peakYield) {
+      peakYield = milk
+      daysToPeak = dim
+    }
+  }
+
+  return { peakYield, daysToPeak, projected305, at200: Math.max(0, predict(200)) }
+}
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits
+
+export function fitWood(points: CurvePoint[]): CurveFit | null {
+  const usable = points.filter(point => point.dim > 0 && point.milk > 0)
+  if (usable.length < MIN_POINTS) return null
+
+  // ln y = ln a + b ln t - c t
+  const solution = leastSquares(
+    usable.map(point => [Math.log(point.dim), point.dim]),
+    usable.map(point => Math.log(point.milk))
+  )
+  if (!solution) return null
+
+  const a = Math.exp(solution[0])
+  const b = solution[1]
+  const c = -solution[2]
+  const predict = (dim: number) => a * dim ** b * Math.exp(-c * dim)
+  const r2 = round(rSquared(usable, predict), 3)
+
+  // With c <= 0 the curve grows without bound; with b < 0 it falls from day one
+  if (c <= 0 || b < 0) {
+    return {
+      model: 'wood',
+      params: { a, b, c },
+      atypical: true,
+      peakYield: null,
+      daysToPeak: null,
+      persistency: null,
+      projected305: null,
+      r2,
+      points: usable.length
+    }
+  }
+
+  const curve = summarizeCurve(predict)
+  return {
+    model: 'wood',
+    params: { a, b, c },
+    atypical: false,
+    peakYield: round(curve.peakYield),
+    daysToPeak: curve.daysToPeak,
+    persistency: round(-(b + 1) * Math.log(c)),
+    projected305: round(curve.projected305, 0),
+    r2,
+    points: usable.length
+  }
+}
+
+export function fitWilmink(points: CurvePoint[]): CurveFit | null {
+  const usable = points.filter(point => point.dim > 0)
+  if (usable.length < MIN_POINTS) return null
+
+  const solution = leastSquares(
+    usable.map(point => [Math.exp(-WILMINK_K * point.dim), point.dim]),
+    usable.map(point => point.milk)
+  )
+  if (!solution) return null
+
+  const [a, b, c] = solution
+  const predict = (dim: number) => a + b * Math.exp(-WILMINK_K * dim) + c * dim
+  const curve = summarizeCurve(predict)
+
+  return {
+    model: 'wilmink',
+    params: { a, b, c, k: WILMINK_K },
+    atypical: false,
+    peakYield: round(curve.peakYield),
+    daysToPeak: curve.daysToPeak,
+    persistency: curve.peakYield > 0 ? round((curve.at200 / curve.peakYield) * 100, 1) : 0,
+    projected305: round(curve.projected305, 0),
+    r2: round(rSquared(usable, predict), 3),
+    points: usable.length
+  }
+}
+
+export function fitCurve(points: CurvePoint[], model: CurveModel): CurveFit | null {
+  return model === 'wilmink' ? fitWilmink(points) : fitWood(points)
+}
+
+// Evaluate a fitted curve at a given DIM
+export function predictMilk(fit: CurveFit, dim: number): number {
+  const { a, b, c } = fit.params
+  const milk = fit.model === 'wilmink'
+    ? a + b * Math.exp(-WILMINK_K * dim) + c * dim
+    : a * dim ** b * Math.exp(-c * dim)
+  return Math.max(0, milk)
+}
+
+// Round curve parameters for API output once predictions are done
+export function formatCurveReport(report: LactationCurveReport): LactationCurveReport {
+  const formatFit = (fit: CurveFit | null): CurveFit | null => fit && {
+    ...fit,
+    params: Object.fromEntries(Object.entries(fit.params).map(([name, value]) => [name, round(value, name === 'c' ? 5 : 4)]))
+  }
+  return {
+    ...report,
+    groups: report.groups.map(group => ({ ...group, fit: formatFit(group.fit) })),
+    cows: report.cows.map(cow => ({ ...cow, fit: formatFit(cow.fit) }))
+  }
+}
+
+// Fit curves per cow lactation and per parity group from the herd test-day records
+export async function analyzeLactationCurves(
+  options: { model?: CurveModel; cowId?: string; parity?: ParityGroup } = {}
+): Promise<LactationCurveReport> {
+  const model = options.model || 'wood'
+
+  const testDays = await db.testDay.findMany({
+    where: { milk: { not: null } },
+    include: {
+      animal: { select: { cowId: true } },
+      lactation: { select: { number: true, calvingDate: true } }
+    },
+    orderBy: { testDate: 'asc' }
+  })
+
+  // Group test days by cow lactation
+  const lactations = new Map<string, { cowId: string; lactation: number | null; points: CurvePoint[] }>()
+  for (const testDay of testDays) {
+    const calvingDate = testDay.lactation?.calvingDate
+    const dim = testDay.dim ?? (calvingDate
+      ? Math.round((testDay.testDate.getTime() - calvingDate.getTime()) / DAY_MS)
+      : null)
+    if (dim === null || dim <= 0 || dim > MAX_DIM || testDay.milk === null) continue
+
+    const lactation = testDay.lactation?.number ?? null
+    const key = `${testDay.animal.cowId}:${lactation ?? '?'}`
+    const entry = lactations.get(key) || { cowId: testDay.animal.cowId, lactation, points: [] as CurvePoint[] }
+    entry.points.push({ dim, milk: testDay.milk })
+    lactations.set(key, entry)
+  }
+
+  // Group curves pool every lactation in the parity group
+  const groupPoints = new Map<ParityGroup, { cows: Set<string>; points: CurvePoint[] }>()
+  for (const entry of lactations.values()) {
+    const group = parityGroup(entry.lactation)
+    if (!group) continue
+    const pooled = groupPoints.get(group) || { cows: new Set<string>(), points: [] }
+    pooled.cows.add(entry.cowId)
+    pooled.points.push(...entry.points)
+    groupPoints.set(group, pooled)
+  }
+
+  const groups: GroupCurve[] = (['1', '2', '3+'] as ParityGroup[])
+    .filter(group => groupPoints.has(group))
+    .map(group => ({
+      parityGroup: group,
+      cows: groupPoints.get(group)!.cows.size,
+      fit: fitCurve(groupPoints.get(group)!.points, model)
+    }))
+
+  const cows: CowCurve[] = []
+  for (const entry of lactations.values()) {
+    const group = parityGroup(entry.lactation)
+    if (options.cowId && entry.cowId !== options.cowId) continue
+    if (options.parity && group !== options.parity) continue
+
+    const latest = entry.points.reduce((last, point) => (point.dim > last.dim ? point : last))
+    const groupFit = groups.find(candidate => candidate.parityGroup === group)?.fit
+    const expectedMilk = groupFit && !groupFit.atypical ? predictMilk(groupFit, latest.dim) : null
+
+    cows.push({
+      cowId: entry.cowId,
+      lactation: entry.lactation,
+      parityGroup: group,
+      fit: fitCurve(entry.points, model),
+      latestDim: latest.dim,
+      latestMilk: latest.milk,
+      expectedMilk: expectedMilk !== null ? round(expectedMilk) : null,
+      deviationPct: expectedMilk ? round(((latest.milk - expectedMilk) / expectedMilk) * 100, 1) : null
+    })
+  }
+
+  // Cows furthest below their expected curve first
+  cows.sort((a, b) => (a.deviationPct ?? Infinity) - (b.deviationPct ?? Infinity))
+
+  return {
+    model,
+    groups: options.parity ? groups.filter(group => group.parityGroup === options.parity) : groups,
+    cows
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest'
+import { balanceRation, calculateRequirements, DEFAULT_GROUP, evaluateRation } from '@/lib/herd/ration'
+
+vi.mock('@/lib/db', () => ({ db: {} }))
+
+describe('calculateRequirements', () => {
+  it('follows the NRC 2001 intake and energy equations', () => {
+    expect(calculateRequirements(DEFAULT_GROUP)).toEqual({
+      dmi: 24.9,
+      nel: 35.7,
+      cpPct: 17,
+      ndfMinPct: 28,
+      ndfMaxPct: 36,
+      foragePctMin: 40
+    })
+  })
+
+  it('raises the protein target with yield within 15-18% CP', () => {
+    expect(calculateRequirements({ ...DEFAULT_GROUP, milk: 5 }).cpPct).toBe(15)
+    expect(calculateRequirements({ ...DEFAULT_GROUP, milk: 60 }).cpPct).toBe(18)
+  })
+})
+
+describe('evaluateRation', () => {
+  it('totals dry matter, energy, protein, fiber, cost and IOFC', () => {
+    const evaluation = evaluateRation(DEFAULT_GROUP, [
+      { feedId: 'corn_silage', kgAsFed: 20 },
+      { feedId: 'soybean_meal', kgAsFed: 2 },
+      { feedId: 'barley', kgAsFed: 0 }
+    ], { milkPrice: 0.5 })
+
+    expect(evaluation.lines.map(line => [line.feedId, line.kgDM, line.pctOfDM, line.costPerDay])).toEqual([
+      ['corn_silage', 7, 79.7, 1.2],
+      ['soybean_meal', 1.8, 20.3, 0.9]
+    ])
+    expect(evaluation.totals).toEqual({
+      kgAsFed: 22,
+      kgDM: 8.8,
+      nel: 13.9,
+      cpPct: 17.1,
+      ndfPct: 35.5,
+      foragePct: 79.7,
+      costPerDay: 2.1,
+      costPerKgDM: 0.239
+    })
+    expect(evaluation.energyAllowableMilk).toBe(5)
+    expect(evaluation.iofc).toEqual({ milkPrice: 0.5, milkIncome: 17.5, feedCost: 2.1, iofc: 15.4 })
+  })
+
+  it('warns when intake and energy fall short', () => {
+    const { warnings } = evaluateRation(DEFAULT_GROUP, [{ feedId: 'corn_silage', kgAsFed: 20 }, { feedId: 'soybean_meal', kgAsFed: 2 }])
+    expect(warnings).toEqual([
+      'Dry matter (8.8 kg) is below predicted intake (24.9 kg)',
+      "Energy supports 5 kg milk, below the group's 35 kg"
+    ])
+  })
+
+  it('rejects feeds missing from the library', () => {
+    expect(() => evaluateRation(DEFAULT_GROUP, [{ feedId: 'moon_dust', kgAsFed: 1 }])).toThrow('Unknown feed: moon_dust')
+  })
+})
+
+describe('balanceRation', () => {
+  it('finds amounts that meet the intake, energy, protein and fiber targets', () => {
+    const { requirements, totals, warnings } = balanceRation(DEFAULT_GROUP, {
+      feedIds: ['corn_silage', 'alfalfa_haylage', 'ground_corn', 'soybean_meal']
+    })
+
+    expect(totals.kgDM).toBeCloseTo(requirements.dmi, 0)
+    expect(totals.nel).toBeGreaterThanOrEqual(requirements.nel * 0.95)
+    expect(totals.cpPct).toBeGreaterThanOrEqual(requirements.cpPct - 0.5)
+    expect(totals.ndfPct).toBeGreaterThanOrEqual(requirements.ndfMinPct)
+    expect(totals.foragePct).toBeGreaterThanOrEqual(requirements.foragePctMin)
+    expect(warnings).toEqual([])
+  })
+})
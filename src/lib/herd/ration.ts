@@ -0,0 +1,245 @@
+import { db } from '@/lib/db'
+import { DEFAULT_RATION_FEEDS, Feed, findFeed } from '@/lib/herd/feed-library'
+import { parityGroup, ParityGroup } from '@/lib/herd/lactation-curves'
+
+// Ration evaluation and balancing for a production group. Requirements
+// follow NRC 2001: dry matter intake from 4% FCM and metabolic body weight,
+// NEL for maintenance plus milk energy, and rule-of-thumb CP, NDF and forage
+// targets. Balancing fits feed amounts to the targets by non-negative least
+// squares with a feed cost penalty.
+
+export interface RationGroup {
+  milk: number
+  bodyWeight: number
+  fatPct: number
+  proteinPct: number
+  dim: number
+}
+
+export interface RationItem {
+  feedId: string
+  kgAsFed: number
+}
+
+export interface NutrientRequirements {
+  dmi: number
+  nel: number
+  cpPct: number
+  ndfMinPct: number
+  ndfMaxPct: number
+  foragePctMin: number
+}
+
+export interface RationLine {
+  feedId: string
+  feed: string
+  kgAsFed: number
+  kgDM: number
+  pctOfDM: number
+  costPerDay: number
+}
+
+export interface RationEvaluation {
+  group: RationGroup
+  requirements: NutrientRequirements
+  lines: RationLine[]
+  totals: {
+    kgAsFed: number
+    kgDM: number
+    nel: number
+    cpPct: number
+    ndfPct: number
+    foragePct: number
+    costPerDay: number
+    costPerKgDM: number
+  }
+  // Milk the supplied energy supports after maintenance
+  energyAllowableMilk: number
+  iofc: { milkPrice: number; milkIncome: number; feedCost: number; iofc: number }
+  warnings: string[]
+}
+
+export const DEFAULT_GROUP: RationGroup = { milk: 35, bodyWeight: 650, fatPct: 3.8, proteinPct: 3.2, dim: 150 }
+// USD per kg of milk
+export const DEFAULT_MILK_PRICE = 0.4
+
+const LACTOSE_PCT = 4.85
+const SOLVER_SWEEPS = 500
+// Weight of feed cost against nutrient misses when balancing
+const COST_PENALTY = 1e-3
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits
+
+// NEL in one kg of milk (Mcal)
+function milkEnergy(group: RationGroup): number {
+  return 0.0929 * group.fatPct + 0.0563 * group.proteinPct + 0.0395 * LACTOSE_PCT
+}
+
+export function calculateRequirements(group: RationGroup): NutrientRequirements {
+  const metabolicWeight = group.bodyWeight ** 0.75
+  const fcm = 0.4 * group.milk + 15 * group.milk * (group.fatPct / 100)
+  const weekOfLactation = group.dim / 7
+  const dmi = (0.372 * fcm + 0.0968 * metabolicWeight) * (1 - Math.exp(-0.192 * (weekOfLactation + 3.67)))
+
+  return {
+    dmi: round(dmi, 1),
+    nel: round(0.08 * metabolicWeight + group.milk * milkEnergy(group), 1),
+    // Higher producing groups need a denser diet: ~16% CP at 25 kg, ~17.5% at 45 kg
+    cpPct: round(Math.min(18, Math.max(15, 14.5 + 0.07 * group.milk)), 1),
+    ndfMinPct: 28,
+    ndfMaxPct: 36,
+    foragePctMin: 40
+  }
+}
+
+function resolveFeed(feedId: string): Feed {
+  const feed = findFeed(feedId)
+  if (!feed) throw new Error(`Unknown feed: ${feedId}`)
+  return feed
+}
+
+// Evaluate a ration (kg as fed per cow per day) against the group's requirements
+export function evaluateRation(
+  group: RationGroup,
+  items: RationItem[],
+  options: { milkPrice?: number } = {}
+): RationEvaluation {
+  const requirements = calculateRequirements(group)
+  const milkPrice = options.milkPrice ?? DEFAULT_MILK_PRICE
+
+  const resolved = items
+    .filter(item => item.kgAsFed > 0)
+    .map(item => {
+      const feed = resolveFeed(item.feedId)
+      return { feed, kgAsFed: item.kgAsFed, kgDM: item.kgAsFed * (feed.dmPct / 100) }
+    })
+
+  const kgDM = resolved.reduce((sum, item) => sum + item.kgDM, 0)
+  const share = (pick: (item: (typeof resolved)[number]) => number) =>
+    kgDM > 0 ? resolved.reduce((sum, item) => sum + pick(item), 0) / kgDM : 0
+  const nel = resolved.reduce((sum, item) => sum + item.kgDM * item.feed.nelMcal, 0)
+  const costPerDay = resolved.reduce((sum, item) => sum + (item.kgAsFed * item.feed.costPerTon) / 1000, 0)
+
+  const totals = {
+    kgAsFed: round(resolved.reduce((sum, item) => sum + item.kgAsFed, 0), 1),
+    kgDM: round(kgDM, 1),
+    nel: round(nel, 1),
+    cpPct: round(share(item => item.kgDM * item.feed.cpPct), 1),
+    ndfPct: round(share(item => item.kgDM * item.feed.ndfPct), 1),
+    foragePct: round(share(item => (item.feed.category === 'forage' ? item.kgDM * 100 : 0)), 1),
+    costPerDay: round(costPerDay),
+    costPerKgDM: kgDM > 0 ? round(costPerDay / kgDM, 3) : 0
+  }
+
+  const maintenance = 0.08 * group.bodyWeight ** 0.75
+  const energyAllowableMilk = round(Math.max(0, nel - maintenance) / milkEnergy(group), 1)
+
+  const warnings: string[] = []
+  if (kgDM < requirements.dmi * 0.9) warnings.push(`Dry matter (${totals.kgDM} kg) is below predicted intake (${requirements.dmi} kg)`)
+  if (kgDM > requirements.dmi * 1.1) warnings.push(`Dry matter (${totals.kgDM} kg) is above what the group is likely to eat (${requirements.dmi} kg)`)
+  if (nel < requirements.nel * 0.95) warnings.push(`Energy supports ${energyAllowableMilk} kg milk, below the group's ${group.milk} kg`)
+  if (totals.cpPct < requirements.cpPct - 0.5) warnings.push(`Crude protein ${totals.cpPct}% is below the ${requirements.cpPct}% target`)
+  if (totals.ndfPct < requirements.ndfMinPct) warnings.push(`NDF ${totals.ndfPct}% is below ${requirements.ndfMinPct}% (acidosis risk)`)
+  if (totals.ndfPct > requirements.ndfMaxPct) warnings.push(`NDF ${totals.ndfPct}% is above ${requirements.ndfMaxPct}% and may limit intake`)
+  if (totals.foragePct < requirements.foragePctMin) warnings.push(`Forage is ${totals.foragePct}% of DM, below ${requirements.foragePctMin}%`)
+
+  const milkIncome = group.milk * milkPrice
+
+  return {
+    group,
+    requirements,
+    lines: resolved.map(item => ({
+      feedId: item.feed.id,
+      feed: item.feed.name,
+      kgAsFed: round(item.kgAsFed, 1),
+      kgDM: round(item.kgDM, 1),
+      pctOfDM: kgDM > 0 ? round((item.kgDM / kgDM) * 100, 1) : 0,
+      costPerDay: round((item.kgAsFed * item.feed.costPerTon) / 1000)
+    })),
+    totals,
+    energyAllowableMilk,
+    iofc: {
+      milkPrice,
+      milkIncome: round(milkIncome),
+      feedCost: totals.costPerDay,
+      iofc: round(milkIncome - costPerDay)
+    },
+    warnings
+  }
+}
+
+// Find feed amounts that meet the group's DMI, energy, protein, fiber and forage targets
+export function balanceRation(
+  group: RationGroup,
+  options: { feedIds?: string[]; milkPrice?: number } = {}
+): RationEvaluation {
+  const feeds = (options.feedIds && options.feedIds.length > 0 ? options.feedIds : DEFAULT_RATION_FEEDS).map(resolveFeed)
+  const requirements = calculateRequirements(group)
+  const { dmi } = requirements
+
+  // Each target row: coefficient per kg DM of each feed, the allowed range, and a weight.
+  // Intake is a point target; the others only count when out of range, leaving cost to choose.
+  const cp = (requirements.cpPct / 100) * dmi
+  const targets = [
+    { coefficients: feeds.map(() => 1), min: dmi, max: dmi, weight: 2 },
+    { coefficients: feeds.map(feed => feed.nelMcal), min: requirements.nel, max: requirements.nel * 1.1, weight: 2 },
+    { coefficients: feeds.map(feed => feed.cpPct / 100), min: cp, max: cp + 0.015 * dmi, weight: 1 },
+    { coefficients: feeds.map(feed => feed.ndfPct / 100), min: (requirements.ndfMinPct / 100) * dmi, max: (requirements.ndfMaxPct / 100) * dmi, weight: 2 },
+    { coefficients: feeds.map(feed => (feed.category === 'forage' ? 1 : 0)), min: (requirements.foragePctMin / 100) * dmi, max: dmi, weight: 1 }
+  ].map(row => ({ ...row, weight: row.weight / row.min }))
+  const costPerKgDM = feeds.map(feed => feed.costPerTon / 1000 / (feed.dmPct / 100))
+
+  // Projected coordinate descent on the weighted squared misses plus feed cost
+  const amounts = feeds.map(() => dmi / feeds.length)
+  for (let sweep = 0; sweep < SOLVER_SWEEPS; sweep++) {
+    for (let i = 0; i < feeds.length; i++) {
+      let gradient = COST_PENALTY * costPerKgDM[i]
+      let curvature = 0
+      for (const row of targets) {
+        const supplied = row.coefficients.reduce((sum, coefficient, j) => sum + coefficient * amounts[j], 0)
+        const miss = supplied < row.min ? supplied - row.min : supplied > row.max ? supplied - row.max : 0
+        gradient += 2 * row.weight ** 2 * row.coefficients[i] * miss
+        curvature += 2 * row.weight ** 2 * row.coefficients[i] ** 2
+      }
+      if (curvature > 0) amounts[i] = Math.max(0, amounts[i] - gradient / curvature)
+    }
+  }
+
+  return evaluateRation(
+    group,
+    feeds.map((feed, index) => ({ feedId: feed.id, kgAsFed: amounts[index] / (feed.dmPct / 100) })),
+    { milkPrice: options.milkPrice }
+  )
+}
+
+// Average production at each cow's most recent test, optionally for one parity group
+export async function latestGroupProduction(
+  parity?: ParityGroup
+): Promise<{ cows: number; milk: number; fatPct: number | null; proteinPct: number | null } | null> {
+  const testDays = await db.testDay.findMany({
+    where: { milk: { not: null } },
+    include: {
+      animal: { select: { cowId: true, status: true } },
+      lactation: { select: { number: true } }
+    },
+    orderBy: { testDate: 'desc' }
+  })
+
+  const latest = new Map<string, (typeof testDays)[number]>()
+  for (const testDay of testDays) {
+    if (testDay.animal.status === 'culled' || latest.has(testDay.animal.cowId)) continue
+    if (parity && parityGroup(testDay.lactation?.number ?? null) !== parity) continue
+    latest.set(testDay.animal.cowId, testDay)
+  }
+
+  const tests = Array.from(latest.values())
+  if (tests.length === 0) return null
+
+  const average = (values: number[]) => (values.length > 0 ? round(values.reduce((sum, value) => sum + value, 0) / values.length, 1) : null)
+  return {
+    cows: tests.length,
+    milk: average(tests.map(test => test.milk as number)) as number,
+    fatPct: average(tests.filter(test => test.fatPct !== null).map(test => test.fatPct as number)),
+    proteinPct: average(tests.filter(test => test.proteinPct !== null).map(test => test.proteinPct as number))
+  }
+}
@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { analyzeReproduction, loadCowHistories } from '@/lib/herd/reproduction'
+
+const { events } = vi.hoisted(() => ({ events: [] as any[] }))
+vi.mock('@/lib/db', () => ({
+  db: { herdEvent: { findMany: async () => [...events].sort((a, b) => a.eventDate - b.eventDate) } }
+}))
+
+const day = (date: string) => new Date(`${date}T00:00:00Z`)
+function event(cowId: string, eventType: string, date: string, details: string | null = null) {
+  events.push({ eventType, eventDate: day(date), details, animal: { cowId } })
+}
+
+beforeEach(() => {
+  events.length = 0
+})
+
+describe('loadCowHistories', () => {
+  it('matches services to checks, repeat services and calvings', async () => {
+    event('1', 'calving', '2023-01-01')
+    event('1', 'breeding', '2023-03-01', 'BRED: 7HO100')
+    event('1', 'breeding', '2023-03-22', 'BRED: 7HO200')
+    event('1', 'preg_check', '2023-04-30', 'PREG')
+    event('1', 'calving', '2023-12-30')
+    event('1', 'breeding', '2024-03-01', 'BRED')
+
+    const [history] = await loadCowHistories()
+    expect(history.calvings).toHaveLength(2)
+    expect(history.services.map(service => [service.serviceNumber, service.sire, service.outcome])).toEqual([
+      [1, '7HO100', 'open'],
+      [2, '7HO200', 'pregnant'],
+      [1, null, 'pending']
+    ])
+  })
+
+  it('counts a double insemination as one service', async () => {
+    event('1', 'calving', '2023-01-01')
+    event('1', 'breeding', '2023-03-01', 'BRED: 7HO100')
+    event('1', 'breeding', '2023-03-02', 'BRED: 7HO100')
+    event('1', 'preg_check', '2023-04-10', 'PREG')
+
+    const [history] = await loadCowHistories()
+    expect(history.services).toHaveLength(1)
+    expect(history.services[0]).toMatchObject({ serviceNumber: 1, outcome: 'pregnant', date: day('2023-03-01') })
+  })
+
+  it('reads open checks and checks stored as breeding events', async () => {
+    event('1', 'calving', '2023-01-01')
+    event('1', 'breeding', '2023-03-01', 'BRED')
+    event('1', 'preg_check', '2023-04-10', 'OPEN')
+    event('1', 'breeding', '2023-04-20', 'BRED')
+    event('1', 'breeding', '2023-06-01', 'PREG')
+
+    const [history] = await loadCowHistories()
+    expect(history.services.map(service => service.outcome)).toEqual(['open', 'pregnant'])
+  })
+
+  it('confirms an unchecked service by a calving a gestation later', async () => {
+    event('1', 'calving', '2023-01-01')
+    event('1', 'breeding', '2023-03-01', 'BRED')
+    event('1', 'calving', '2023-12-05')
+
+    const [history] = await loadCowHistories()
+    expect(history.services[0].outcome).toBe('pregnant')
+  })
+})
+
+describe('analyzeReproduction', () => {
+  it('reports conception, days open and calving interval for the period', async () => {
+    event('1', 'calving', '2023-01-01')
+    event('1', 'breeding', '2023-03-01', 'BRED: 7HO100')
+    event('1', 'breeding', '2023-03-22', 'BRED: 7HO100')
+    event('1', 'preg_check', '2023-05-01', 'PREG')
+    event('1', 'calving', '2023-12-28')
+    event('2', 'calving', '2023-01-10')
+    event('2', 'breeding', '2023-03-10', 'BRED: 7HO200')
+    event('2', 'preg_check', '2023-04-20', 'PREG')
+
+    const report = await analyzeReproduction({ from: day('2023-01-01'), to: day('2023-12-31') })
+
+    expect(report.services).toEqual({ total: 3, pregnant: 2, open: 1, pending: 0 })
+    expect(report.conceptionRate).toBe(66.7)
+    expect(report.conceptionByService).toEqual([
+      { key: '1', services: 2, pregnant: 1, conceptionRate: 50 },
+      { key: '2', services: 1, pregnant: 1, conceptionRate: 100 }
+    ])
+    expect(report.conceptionBySire[0]).toEqual({ key: '7HO100', services: 2, pregnant: 1, conceptionRate: 50 })
+    expect(report.daysOpen).toEqual({ cows: 2, average: 69.5, median: 69.5 })
+    expect(report.calvingInterval).toEqual({ cows: 1, average: 361, median: 361 })
+    expect(report.cycles[0]).toMatchObject({ start: '2023-01-01', end: '2023-01-22', eligible: 0 })
+  })
+})
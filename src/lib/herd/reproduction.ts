@@ -0,0 +1,269 @@
+import { db } from '@/lib/db'
+
+// Reproduction KPIs from ingested herd events. Services (breedings) are
+// matched to their outcome using pregnancy checks, repeat services and later
+// calvings; 21-day cycles after the voluntary waiting period give heat
+// detection and pregnancy rates.
+
+export type ServiceOutcome = 'pregnant' | 'open' | 'pending'
+
+export interface ServiceRecord {
+  cowId: string
+  date: Date
+  lactationCalving: Date | null
+  serviceNumber: number
+  sire: string | null
+  outcome: ServiceOutcome
+}
+
+export interface ReproCycle {
+  start: string
+  end: string
+  eligible: number
+  bred: number
+  pregnant: number
+  heatDetectionRate: number | null
+  pregnancyRate: number | null
+}
+
+export interface RateBreakdown {
+  key: string
+  services: number
+  pregnant: number
+  conceptionRate: number | null
+}
+
+export interface DistributionSummary {
+  cows: number
+  average: number | null
+  median: number | null
+}
+
+export interface ReproReport {
+  period: { from: string; to: string }
+  voluntaryWaitingPeriod: number
+  pregnancyRate: number | null
+  heatDetectionRate: number | null
+  conceptionRate: number | null
+  services: { total: number; pregnant: number; open: number; pending: number }
+  cycles: ReproCycle[]
+  conceptionByService: RateBreakdown[]
+  conceptionBySire: RateBreakdown[]
+  daysOpen: DistributionSummary
+  calvingInterval: DistributionSummary
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const CYCLE_DAYS = 21
+export const DEFAULT_VWP = 50
+// A calving this many days after a service confirms the pregnancy
+const GESTATION_MIN_DAYS = 260
+const GESTATION_MAX_DAYS = 300
+// Services this many days or fewer after a service are repeat inseminations in the same heat
+const DOUBLE_SERVICE_DAYS = 3
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits
+const percent = (part: number, whole: number) => (whole > 0 ? round((part / whole) * 100) : null)
+const days = (from: Date, to: Date) => Math.round((to.getTime() - from.getTime()) / DAY_MS)
+
+// Breeding and check events carry their original code in details ("BRED: 7HO12345", "PREG", "OPEN");
+// checks ingested before they had their own type are still stored as breeding events
+function breedingKind(eventType: string, details: string | null): 'service' | 'pregnant' | 'open' | 'heat' {
+  const code = (details || '').split(':')[0].trim().toLowerCase()
+  if (/^(open|recheck|pd-|not pregnant)/.test(code)) return 'open'
+  if (/^(preg|pg|confirmed|pd\+)/.test(code) || eventType === 'preg_check') return 'pregnant'
+  if (/^heat/.test(code)) return 'heat'
+  return 'service'
+}
+
+function parseSire(details: string | null): string | null {
+  const remark = (details || '').split(':').slice(1).join(':').trim()
+  return remark ? remark.split(/\s+/)[0].toUpperCase() : null
+}
+
+function summarize(values: number[]): DistributionSummary {
+  if (values.length === 0) return { cows: 0, average: null, median: null }
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return {
+    cows: values.length,
+    average: round(values.reduce((sum, value) => sum + value, 0) / values.length),
+    median: sorted.length % 2 ? sorted[middle] : round((sorted[middle - 1] + sorted[middle]) / 2)
+  }
+}
+
+function breakdown(services: ServiceRecord[], keyOf: (service: ServiceRecord) => string): RateBreakdown[] {
+  const groups = new Map<string, { services: number; pregnant: number }>()
+  for (const service of services) {
+    if (service.outcome === 'pending') continue
+    const key = keyOf(service)
+    const group = groups.get(key) || { services: 0, pregnant: 0 }
+    group.services++
+    if (service.outcome === 'pregnant') group.pregnant++
+    groups.set(key, group)
+  }
+  return Array.from(groups.entries()).map(([key, group]) => ({
+    key,
+    services: group.services,
+    pregnant: group.pregnant,
+    conceptionRate: percent(group.pregnant, group.services)
+  }))
+}
+
+export interface CowHistory {
+  cowId: string
+  calvings: Date[]
+  dryOffs: Date[]
+  services: ServiceRecord[]
+  cullDate: Date | null
+}
+
+// Match each service to its outcome and number services within each lactation
+export async function loadCowHistories(): Promise<CowHistory[]> {
+  const events = await db.herdEvent.findMany({
+    where: { eventType: { in: ['calving', 'breeding', 'preg_check', 'dry_off', 'cull'] } },
+    include: { animal: { select: { cowId: true } } },
+    orderBy: { eventDate: 'asc' }
+  })
+
+  const byCow = new Map<string, typeof events>()
+  for (const event of events) {
+    const list = byCow.get(event.animal.cowId) || []
+    list.push(event)
+    byCow.set(event.animal.cowId, list)
+  }
+
+  const histories: CowHistory[] = []
+  for (const [cowId, cowEvents] of byCow) {
+    const calvings = cowEvents.filter(event => event.eventType === 'calving').map(event => event.eventDate as Date)
+    const dryOffs = cowEvents.filter(event => event.eventType === 'dry_off').map(event => event.eventDate as Date)
+    const cullDate = cowEvents.find(event => event.eventType === 'cull')?.eventDate ?? null
+    // A double insemination counts once, as the first service of the heat
+    const breeding: { date: Date; kind: ReturnType<typeof breedingKind>; sire: string | null }[] = []
+    let lastService: Date | null = null
+    for (const event of cowEvents) {
+      if (event.eventType !== 'breeding' && event.eventType !== 'preg_check') continue
+      const kind = breedingKind(event.eventType, event.details)
+      const date = event.eventDate as Date
+      if (kind === 'service') {
+        if (lastService && days(lastService, date) <= DOUBLE_SERVICE_DAYS) continue
+        lastService = date
+      }
+      breeding.push({ date, kind, sire: parseSire(event.details) })
+    }
+
+    const services: ServiceRecord[] = []
+    breeding.forEach((event, index) => {
+      if (event.kind !== 'service') return
+
+      const lactationCalving = [...calvings].reverse().find(calving => calving <= event.date) || null
+      const serviceNumber = services.filter(service => service.lactationCalving?.getTime() === lactationCalving?.getTime()).length + 1
+
+      // The first later service or check decides the outcome; a calving a gestation later confirms it
+      let outcome: ServiceOutcome = 'pending'
+      const next = breeding.slice(index + 1).find(later => later.kind !== 'heat')
+      if (next?.kind === 'pregnant') outcome = 'pregnant'
+      else if (next?.kind === 'open' || next?.kind === 'service') outcome = 'open'
+
+      const nextCalving = calvings.find(calving => calving > event.date)
+      if (nextCalving) {
+        const gestation = days(event.date, nextCalving)
+        if (gestation >= GESTATION_MIN_DAYS && gestation <= GESTATION_MAX_DAYS && outcome !== 'open') outcome = 'pregnant'
+        else if (outcome === 'pending') outcome = 'open'
+      }
+
+      services.push({ cowId, date: event.date, lactationCalving, serviceNumber, sire: event.sire, outcome })
+    })
+
+    histories.push({ cowId, calvings, dryOffs, services, cullDate })
+  }
+
+  return histories
+}
+
+// Compute reproduction KPIs for services, conceptions and calvings within the period
+export async function analyzeReproduction(
+  options: { from: Date; to: Date; voluntaryWaitingPeriod?: number }
+): Promise<ReproReport> {
+  const { from, to } = options
+  const vwp = options.voluntaryWaitingPeriod ?? DEFAULT_VWP
+  const histories = await loadCowHistories()
+
+  const inPeriod = (date: Date) => date >= from && date <= to
+  const periodServices = histories.flatMap(history => history.services).filter(service => inPeriod(service.date))
+
+  // 21-day cycles: eligible cows are past the VWP by cycle end, open, in milk and not culled
+  const cycles: ReproCycle[] = []
+  for (let start = new Date(from); start < to; start = new Date(start.getTime() + CYCLE_DAYS * DAY_MS)) {
+    const end = new Date(Math.min(start.getTime() + CYCLE_DAYS * DAY_MS, to.getTime()))
+    let eligible = 0
+    let bred = 0
+    let pregnant = 0
+
+    for (const history of histories) {
+      if (history.cullDate && history.cullDate < start) continue
+      const calving = [...history.calvings].reverse().find(date => date < end)
+      if (!calving || days(calving, end) < vwp) continue
+
+      const lactationServices = history.services.filter(service => service.lactationCalving?.getTime() === calving.getTime())
+      const conceived = lactationServices.find(service => service.outcome === 'pregnant')
+      if (conceived && conceived.date < start) continue
+
+      eligible++
+      const cycleServices = lactationServices.filter(service => service.date >= start && service.date < end)
+      if (cycleServices.length > 0) bred++
+      if (cycleServices.some(service => service.outcome === 'pregnant')) pregnant++
+    }
+
+    cycles.push({
+      start: start.toISOString().slice(0, 10),
+      end: end.toISOString().slice(0, 10),
+      eligible,
+      bred,
+      pregnant,
+      heatDetectionRate: percent(bred, eligible),
+      pregnancyRate: percent(pregnant, eligible)
+    })
+  }
+
+  const totals = cycles.reduce(
+    (sum, cycle) => ({ eligible: sum.eligible + cycle.eligible, bred: sum.bred + cycle.bred, pregnant: sum.pregnant + cycle.pregnant }),
+    { eligible: 0, bred: 0, pregnant: 0 }
+  )
+
+  const resolved = periodServices.filter(service => service.outcome !== 'pending')
+  const pregnantServices = resolved.filter(service => service.outcome === 'pregnant')
+
+  // Days open for conceptions in the period; calving interval for calvings in the period
+  const daysOpen = pregnantServices
+    .filter(service => service.lactationCalving)
+    .map(service => days(service.lactationCalving as Date, service.date))
+  const calvingIntervals = histories.flatMap(history =>
+    history.calvings
+      .slice(1)
+      .map((calving, index) => ({ calving, previous: history.calvings[index] }))
+      .filter(({ calving }) => inPeriod(calving))
+      .map(({ calving, previous }) => days(previous, calving))
+  )
+
+  return {
+    period: { from: from.toISOString().slice(0, 10), to: to.toISOString().slice(0, 10) },
+    voluntaryWaitingPeriod: vwp,
+    pregnancyRate: percent(totals.pregnant, totals.eligible),
+    heatDetectionRate: percent(totals.bred, totals.eligible),
+    conceptionRate: percent(pregnantServices.length, resolved.length),
+    services: {
+      total: periodServices.length,
+      pregnant: pregnantServices.length,
+      open: resolved.length - pregnantServices.length,
+      pending: periodServices.length - resolved.length
+    },
+    cycles,
+    conceptionByService: breakdown(periodServices, service => (service.serviceNumber >= 3 ? '3+' : String(service.serviceNumber)))
+      .sort((a, b) => a.key.localeCompare(b.key)),
+    conceptionBySire: breakdown(periodServices, service => service.sire || 'unknown')
+      .sort((a, b) => b.services - a.services),
+    daysOpen: summarize(daysOpen),
+    calvingInterval: summarize(calvingIntervals)
+  }
+}
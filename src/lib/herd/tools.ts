@@ -0,0 +1,537 @@
+import { AnalysisArtifact } from '@/lib/farm-data/artifacts'
+import { CellValue } from '@/lib/farm-data/parser'
+import {
+  CALENDAR_EVENT_LABELS,
+  CalendarEventType,
+  DEFAULT_ALERT_DAYS,
+  DRY_PERIOD_DAYS,
+  GESTATION_DAYS,
+  getHerdCalendar,
+  PREG_CHECK_DAYS,
+  REBREED_DAYS
+} from '@/lib/herd/calendar'
+import { FEED_LIBRARY } from '@/lib/herd/feed-library'
+import { analyzeLactationCurves, CurveModel, ParityGroup, predictMilk } from '@/lib/herd/lactation-curves'
+import { balanceRation, DEFAULT_GROUP, evaluateRation, latestGroupProduction, RationGroup } from '@/lib/herd/ration'
+import { analyzeReproduction, DEFAULT_VWP } from '@/lib/herd/reproduction'
+import { analyzeUdderHealth } from '@/lib/herd/udder-health'
+
+// Herd analytics tools the chat agent can run against the herd database.
+// Each tool computes its answer from ingested records and returns a text
+// summary for the LLM plus tables/charts for the UI.
+
+export interface HerdToolResult {
+  summary: string
+  artifacts: AnalysisArtifact[]
+}
+
+export interface HerdTool {
+  name: string
+  description: string
+  // Questions this tool answers
+  pattern: RegExp
+  // Runs without uploaded farm data, so it is not limited to data-analysis routes
+  standalone?: boolean
+  run: (query: string) => Promise<HerdToolResult | null>
+}
+
+// Render rows as a markdown table for the LLM prompt
+export function markdownTable(columns: string[], rows: CellValue[][]): string {
+  const header = `| ${columns.join(' | ')} |\n| ${columns.map(() => '---').join(' | ')} |`
+  const body = rows.map(row => `| ${row.map(cell => (cell === null ? '' : String(cell))).join(' | ')} |`).join('\n')
+  return rows.length > 0 ? `${header}\n${body}` : `${header}\n(no rows)`
+}
+
+// "cow 1234", "cow #1234", "cow ID A-17"
+export function extractCowId(query: string): string | undefined {
+  return query.match(/\bcow\s*(?:#|id|number|no\.?)?\s*([A-Za-z]*\d[\w-]*)/i)?.[1]
+}
+
+export function extractParityGroup(query: string): ParityGroup | undefined {
+  if (/\b(first[- ]lactation|first[- ]calf|primiparous|heifers?|1st lactation|parity 1)\b/i.test(query)) return '1'
+  if (/\b(second[- ]lactation|2nd lactation|parity 2)\b/i.test(query)) return '2'
+  if (/\b(third|3rd|mature|older|multiparous|parity 3)\b|\b3\+/i.test(query)) return '3+'
+  return undefined
+}
+
+// "last quarter", "last 90 days", "this year", "in 2025"; defaults to the last 12 months
+export function extractPeriod(query: string, now = new Date()): { from: Date; to: Date; label: string } {
+  const year = now.getFullYear()
+  const month = now.getMonth()
+  const quarter = Math.floor(month / 3)
+
+  if (/\blast quarter\b/i.test(query)) {
+    const from = new Date(year, (quarter - 1) * 3, 1)
+    return { from, to: new Date(from.getFullYear(), from.getMonth() + 3, 0, 23, 59, 59), label: 'last quarter' }
+  }
+  if (/\bthis quarter\b/i.test(query)) return { from: new Date(year, quarter * 3, 1), to: now, label: 'this quarter' }
+  if (/\blast month\b/i.test(query)) {
+    return { from: new Date(year, month - 1, 1), to: new Date(year, month, 0, 23, 59, 59), label: 'last month' }
+  }
+  if (/\bthis month\b/i.test(query)) return { from: new Date(year, month, 1), to: now, label: 'this month' }
+  if (/\blast year\b/i.test(query)) {
+    return { from: new Date(year - 1, 0, 1), to: new Date(year - 1, 11, 31, 23, 59, 59), label: 'last year' }
+  }
+  if (/\b(this year|year to date|ytd)\b/i.test(query)) return { from: new Date(year, 0, 1), to: now, label: 'this year' }
+
+  const relative = query.match(/\b(?:last|past)\s+(\d+)\s+(days?|weeks?|months?)\b/i)
+  if (relative) {
+    const amount = Number(relative[1])
+    const unit = relative[2].toLowerCase()
+    const from = new Date(now)
+    if (unit.startsWith('month')) from.setMonth(from.getMonth() - amount)
+    else from.setDate(from.getDate() - amount * (unit.startsWith('week') ? 7 : 1))
+    return { from, to: now, label: `last ${amount} ${unit}` }
+  }
+
+  const calendarYear = query.match(/\b(?:in|for|during)\s+(20\d{2})\b/i)
+  if (calendarYear) {
+    const value = Number(calendarYear[1])
+    return { from: new Date(value, 0, 1), to: new Date(value, 11, 31, 23, 59, 59), label: String(value) }
+  }
+
+  const from = new Date(now)
+  from.setFullYear(from.getFullYear() - 1)
+  return { from, to: now, label: 'last 12 months' }
+}
+
+// "today", "next week", "next 10 days", "this month"; defaults to the next 14 days
+export function extractUpcomingPeriod(query: string, now = new Date()): { from: Date; to: Date; label: string } {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+  const offset = (days: number) => new Date(today.getFullYear(), today.getMonth(), today.getDate() + days)
+  // Days until the coming Sunday (weeks run Monday to Sunday)
+  const toSunday = (7 - today.getDay()) % 7
+
+  if (/\btoday\b/i.test(query)) return { from: today, to: today, label: 'today' }
+  if (/\btomorrow\b/i.test(query)) return { from: offset(1), to: offset(1), label: 'tomorrow' }
+  if (/\bthis week\b/i.test(query)) return { from: today, to: offset(toSunday), label: 'this week' }
+  if (/\bnext week\b/i.test(query)) return { from: offset(toSunday + 1), to: offset(toSunday + 7), label: 'next week' }
+  if (/\bthis month\b/i.test(query)) {
+    return { from: today, to: new Date(today.getFullYear(), today.getMonth() + 1, 0), label: 'this month' }
+  }
+  if (/\bnext month\b/i.test(query)) {
+    return {
+      from: new Date(today.getFullYear(), today.getMonth() + 1, 1),
+      to: new Date(today.getFullYear(), today.getMonth() + 2, 0),
+      label: 'next month'
+    }
+  }
+
+  const relative = query.match(/\b(?:next|coming)\s+(\d+)\s+(days?|weeks?)\b/i)
+  if (relative) {
+    const amount = Number(relative[1])
+    const days = relative[2].toLowerCase().startsWith('week') ? amount * 7 : amount
+    return { from: today, to: offset(days), label: `next ${amount} ${relative[2].toLowerCase()}` }
+  }
+
+  return { from: today, to: offset(14), label: 'next 14 days' }
+}
+
+const lactationCurveTool: HerdTool = {
+  name: 'lactation_curves',
+  description: 'Lactation curves (peak yield, days to peak, persistency, 305-day milk) per cow and parity group',
+  pattern: /\b(lactation curves?|peak (milk|yield)|days to peak|persistency|305[- ]?d(ay)?|wood'?s (model|curve)|wilmink|tracking against|expected (curve|yield|milk))\b/i,
+  async run(query) {
+    const model: CurveModel = /\bwilmink\b/i.test(query) ? 'wilmink' : 'wood'
+    const report = await analyzeLactationCurves({
+      model,
+      cowId: extractCowId(query),
+      parity: extractParityGroup(query)
+    })
+
+    if (report.cows.length === 0 && report.groups.length === 0) return null
+
+    const modelName = model === 'wilmink' ? 'Wilmink' : "Wood's"
+    const persistencyLabel = model === 'wilmink' ? 'persistency_pct_peak_at_200d' : 'persistency_wood'
+    const groupRows = report.groups.map(group => [
+      group.parityGroup,
+      group.cows,
+      group.fit?.peakYield ?? null,
+      group.fit?.daysToPeak ?? null,
+      group.fit?.persistency ?? null,
+      group.fit?.projected305 ?? null,
+      group.fit?.r2 ?? null
+    ])
+    const cowRows = report.cows.slice(0, 25).map(cow => [
+      cow.cowId,
+      cow.lactation,
+      cow.latestDim,
+      cow.latestMilk,
+      cow.expectedMilk,
+      cow.deviationPct,
+      cow.fit?.peakYield ?? null,
+      cow.fit?.projected305 ?? null
+    ])
+
+    // Group curves sampled every 10 DIM for the chart
+    const fittedGroups = report.groups.filter(group => group.fit && !group.fit.atypical)
+    const curveData = Array.from({ length: 31 }, (_, index) => {
+      const dim = Math.max(1, index * 10)
+      const point: Record<string, number> = { dim }
+      fittedGroups.forEach(group => {
+        point[`parity_${group.parityGroup}`] = Math.round(predictMilk(group.fit!, dim) * 10) / 10
+      })
+      return point
+    })
+
+    const artifacts: AnalysisArtifact[] = [
+      {
+        kind: 'table',
+        title: `${modelName} lactation curves by parity group`,
+        columns: ['parity', 'cows', 'peak_yield', 'days_to_peak', persistencyLabel, 'projected_305d', 'r2'],
+        rows: groupRows
+      },
+      {
+        kind: 'table',
+        title: 'Cows vs expected curve (furthest below first)',
+        columns: ['cow_id', 'lactation', 'latest_dim', 'latest_milk', 'expected_milk', 'deviation_pct', 'peak_yield', 'projected_305d'],
+        rows: cowRows
+      }
+    ]
+    if (fittedGroups.length > 0) {
+      artifacts.unshift({
+        kind: 'chart',
+        chartType: 'line',
+        title: 'Expected milk by DIM and parity group',
+        x: 'dim',
+        y: fittedGroups.map(group => `parity_${group.parityGroup}`),
+        data: curveData
+      })
+    }
+
+    const summary = `${modelName} lactation curve analysis (${report.cows.length} cow lactations).
+
+Parity groups:
+${markdownTable(['parity', 'cows', 'peak yield', 'days to peak', 'persistency', '305-day milk', 'R²'], groupRows)}
+
+Cows furthest below their parity group's expected curve (latest test):
+${markdownTable(['cow', 'lactation', 'DIM', 'milk', 'expected', 'deviation %', 'peak', '305-day'], cowRows.slice(0, 10))}
+
+Curves without a rise to a peak and decline are atypical (often too few or too early tests) and have no peak or 305-day projection.`
+
+    return { summary, artifacts }
+  }
+}
+
+const udderHealthTool: HerdTool = {
+  name: 'udder_health',
+  description: 'Udder health: SCC linear scores, new and chronic infections, and bulk tank SCC trend',
+  pattern: /\b(mastitis|udder health|linear scores?|bulk[- ]tank|new infections?|chronic(ally)? (cows?|infect\w*|high)|high (scc|cell count)|cell count trend|scc trend)\b/i,
+  async run(query) {
+    const report = await analyzeUdderHealth({ cowId: extractCowId(query) })
+    if (report.cows.length === 0) return null
+
+    const { summary, threshold } = report
+    const trendRows = report.trend.map(point => [
+      point.testDate,
+      point.cows,
+      point.weightedScc,
+      point.averageLinearScore,
+      point.highPct,
+      point.newInfectionPct,
+      point.chronicPct
+    ])
+    const flagged = report.cows.filter(cow => cow.status !== 'healthy' && cow.status !== 'cured')
+    const cowRows = flagged.slice(0, 30).map(cow => [
+      cow.cowId,
+      cow.lactation,
+      cow.testDate.toISOString().slice(0, 10),
+      cow.scc,
+      cow.linearScore,
+      cow.previousScc,
+      cow.status,
+      cow.consecutiveHigh
+    ])
+
+    const artifacts: AnalysisArtifact[] = [
+      {
+        kind: 'table',
+        title: `Cows flagged at their latest test (SCC > ${threshold}k)`,
+        columns: ['cow_id', 'lactation', 'test_date', 'scc', 'linear_score', 'previous_scc', 'status', 'consecutive_high'],
+        rows: cowRows
+      },
+      {
+        kind: 'table',
+        title: 'Herd SCC by test date',
+        columns: ['test_date', 'cows', 'bulk_tank_scc_est', 'avg_linear_score', 'high_pct', 'new_infection_pct', 'chronic_pct'],
+        rows: trendRows
+      }
+    ]
+    if (report.trend.length > 1) {
+      artifacts.unshift({
+        kind: 'chart',
+        chartType: 'line',
+        title: 'Estimated bulk tank SCC (x1000 cells/mL) by test date',
+        x: 'test_date',
+        y: ['bulk_tank_scc_est'],
+        data: report.trend.map(point => ({ test_date: point.testDate, bulk_tank_scc_est: point.weightedScc }))
+      })
+    }
+
+    const text = `Udder health at each cow's latest test (threshold ${threshold}k cells/mL, linear score = log2(SCC/100) + 3):
+- Cows tested: ${summary.cows}; above threshold: ${summary.highPct}%
+- New infections (previous test low): ${summary.new_infection}
+- Chronic (2+ consecutive high tests): ${summary.chronic}
+- Fresh-cow infections (first recorded test of the lactation high): ${summary.fresh_infection}
+- Cured (previous test high, now low): ${summary.cured}
+- Healthy: ${summary.healthy}
+
+Herd SCC trend (milk-weighted estimate of bulk tank SCC):
+${markdownTable(['test date', 'cows', 'bulk tank SCC est.', 'avg LS', '% high', '% new infections', '% chronic'], trendRows)}
+
+Flagged cows:
+${markdownTable(['cow', 'lactation', 'test date', 'SCC', 'LS', 'previous SCC', 'status', 'consecutive high'], cowRows.slice(0, 15))}`
+
+    return { summary: text, artifacts }
+  }
+}
+
+const CALENDAR_TYPE_PATTERNS: [CalendarEventType, RegExp][] = [
+  ['dry_off', /\bdry(ing)?[- ]?off\b|\bto dry\b/i],
+  ['expected_calving', /\b(calv(e|es|ing)|freshen\w*)\b/i],
+  ['preg_check', /\b(preg(nancy)? (check|diagnos)\w*|vet check|recheck)\b/i],
+  ['vwp_end', /\b(vwp|voluntary waiting|ready to (breed|be bred)|eligible to breed)\b/i],
+  ['rebreed', /\b(rebreed\w*|open cows?|due (for breeding|to be bred))\b/i]
+]
+
+const calendarTool: HerdTool = {
+  name: 'herd_calendar',
+  description: 'Upcoming and overdue dry-offs, calvings, pregnancy checks, rebreedings and voluntary waiting period ends projected from breeding records',
+  pattern: /^(?=.*\b(dry(ing)?[- ]?off|to dry|calv(e|es|ing)|freshen\w*|preg(nancy)? (check|diagnos)\w*|vet check|vwp|voluntary waiting|ready to (breed|be bred)|rebreed\w*|open cows?)\b)(?=.*\b(due|overdue|late|upcoming|expected|next|coming|today|tomorrow|this (week|month)|soon|schedule|calendar|when)\b)/i,
+  async run(query) {
+    const period = extractUpcomingPeriod(query)
+    const types = CALENDAR_TYPE_PATTERNS.filter(([, pattern]) => pattern.test(query)).map(([type]) => type)
+    const calendar = await getHerdCalendar({
+      from: period.from,
+      to: period.to,
+      types: types.length > 0 ? types : undefined,
+      cowId: extractCowId(query)
+    })
+
+    const rows = calendar.events.map(event => [event.date, event.cowId, CALENDAR_EVENT_LABELS[event.type], event.basis])
+    const artifacts: AnalysisArtifact[] = [
+      {
+        kind: 'table',
+        title: `Herd calendar ${calendar.from} to ${calendar.to}`,
+        columns: ['date', 'cow_id', 'event', 'based_on'],
+        rows
+      }
+    ]
+
+    const eventNames = (types.length > 0 ? types : (Object.keys(CALENDAR_EVENT_LABELS) as CalendarEventType[]))
+      .map(type => CALENDAR_EVENT_LABELS[type].toLowerCase())
+      .join(', ')
+    const alertRows = calendar.alerts.map(alert => [
+      alert.status === 'overdue' ? `${-alert.daysUntil} days overdue` : alert.daysUntil === 0 ? 'due today' : `due in ${alert.daysUntil} days`,
+      alert.cowId,
+      CALENDAR_EVENT_LABELS[alert.type],
+      alert.date
+    ])
+    if (alertRows.length > 0) {
+      artifacts.push({ kind: 'table', title: 'Due and overdue', columns: ['status', 'cow_id', 'event', 'date'], rows: alertRows })
+    }
+
+    const summary = `Projected herd calendar for ${period.label} (${calendar.from} to ${calendar.to}); event types: ${eventNames}.
+Dates are projected from recorded calvings and breedings: pregnancy check ${PREG_CHECK_DAYS} days after an unchecked service, expected calving ${GESTATION_DAYS} days after the conceiving service, dry-off ${DRY_PERIOD_DAYS} days before expected calving, the voluntary waiting period ending ${DEFAULT_VWP} days after calving for cows not yet bred, and rebreeding ${REBREED_DAYS} days after a service diagnosed open (not before the waiting period ends).
+${calendar.events.length} events:
+${markdownTable(['date', 'cow', 'event', 'based on'], rows.slice(0, 50))}
+
+Alerts (due within ${DEFAULT_ALERT_DAYS} days, or past their projected date without a recorded event): ${alertRows.length === 0 ? 'none' : `\n${markdownTable(['status', 'cow', 'event', 'date'], alertRows.slice(0, 30))}`}`
+
+    return { summary, artifacts }
+  }
+}
+
+const reproductionTool: HerdTool = {
+  name: 'reproduction',
+  description: 'Reproduction KPIs: 21-day pregnancy rate, heat detection rate, conception rate by service and sire, days open, calving interval',
+  pattern: /\b(preg(nancy)? rates?|conception( rates?)?|heat detection|service rates?|days open|calving intervals?|services per (conception|pregnancy)|repro(duction|ductive)? (performance|kpis?|stats|numbers)|sire fertility)\b/i,
+  async run(query) {
+    const period = extractPeriod(query)
+    const report = await analyzeReproduction({ from: period.from, to: period.to })
+    if (report.services.total === 0 && report.calvingInterval.cows === 0) return null
+
+    const percentText = (value: number | null) => (value === null ? 'n/a' : `${value}%`)
+    const cycleRows = report.cycles.map(cycle => [
+      cycle.start,
+      cycle.eligible,
+      cycle.bred,
+      cycle.pregnant,
+      cycle.heatDetectionRate,
+      cycle.pregnancyRate
+    ])
+    const serviceRows = report.conceptionByService.map(group => [group.key, group.services, group.pregnant, group.conceptionRate])
+    const sireRows = report.conceptionBySire.map(group => [group.key, group.services, group.pregnant, group.conceptionRate])
+
+    const artifacts: AnalysisArtifact[] = [
+      {
+        kind: 'table',
+        title: '21-day cycles',
+        columns: ['cycle_start', 'eligible', 'bred', 'pregnant', 'heat_detection_pct', 'pregnancy_rate_pct'],
+        rows: cycleRows
+      },
+      {
+        kind: 'table',
+        title: 'Conception rate by service number',
+        columns: ['service', 'services', 'pregnant', 'conception_pct'],
+        rows: serviceRows
+      },
+      {
+        kind: 'table',
+        title: 'Conception rate by sire',
+        columns: ['sire', 'services', 'pregnant', 'conception_pct'],
+        rows: sireRows
+      }
+    ]
+    if (report.cycles.length > 1) {
+      artifacts.unshift({
+        kind: 'chart',
+        chartType: 'line',
+        title: 'Heat detection and pregnancy rate by 21-day cycle',
+        x: 'cycle_start',
+        y: ['heat_detection_pct', 'pregnancy_rate_pct'],
+        data: report.cycles.map(cycle => ({
+          cycle_start: cycle.start,
+          heat_detection_pct: cycle.heatDetectionRate,
+          pregnancy_rate_pct: cycle.pregnancyRate
+        }))
+      })
+    }
+
+    const { services, daysOpen, calvingInterval } = report
+    const summary = `Reproduction KPIs for ${period.label} (${report.period.from} to ${report.period.to}, voluntary waiting period ${report.voluntaryWaitingPeriod} days):
+- 21-day pregnancy rate: ${percentText(report.pregnancyRate)}
+- Heat detection (service) rate: ${percentText(report.heatDetectionRate)}
+- Conception rate: ${percentText(report.conceptionRate)} (${services.pregnant} pregnant of ${services.pregnant + services.open} services with a known outcome; ${services.pending} services not yet checked)
+- Days open (conceptions in the period): average ${daysOpen.average ?? 'n/a'}, median ${daysOpen.median ?? 'n/a'} (${daysOpen.cows} cows)
+- Calving interval (calvings in the period): average ${calvingInterval.average ?? 'n/a'} days, median ${calvingInterval.median ?? 'n/a'} (${calvingInterval.cows} cows)
+
+Conception rate by service number:
+${markdownTable(['service', 'services', 'pregnant', 'conception %'], serviceRows)}
+
+Conception rate by sire:
+${markdownTable(['sire', 'services', 'pregnant', 'conception %'], sireRows.slice(0, 15))}
+
+21-day cycles:
+${markdownTable(['cycle start', 'eligible', 'bred', 'pregnant', 'heat detection %', 'pregnancy rate %'], cycleRows)}`
+
+    return { summary, artifacts }
+  }
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+// "12 kg corn silage", "3.5 kg of soybean meal"; longer aliases first so "alfalfa hay" wins over "hay"
+function extractRationItems(query: string): { items: { feedId: string; kgAsFed: number }[]; mentioned: string[] } {
+  const aliases = FEED_LIBRARY.flatMap(feed => feed.aliases.map(alias => ({ alias, feedId: feed.id })))
+    .sort((a, b) => b.alias.length - a.alias.length)
+  const items: { feedId: string; kgAsFed: number }[] = []
+  const mentioned: string[] = []
+  let remaining = query.toLowerCase()
+
+  for (const { alias, feedId } of aliases) {
+    const aliasPattern = escapeRegExp(alias)
+    const withAmount = new RegExp(`(\\d+(?:\\.\\d+)?)\\s*kg\\s+(?:of\\s+)?${aliasPattern}\\b`)
+    const amount = remaining.match(withAmount)
+    if (amount) {
+      items.push({ feedId, kgAsFed: Number(amount[1]) })
+      remaining = remaining.replace(amount[0], ' ')
+      continue
+    }
+    const bare = new RegExp(`\\b${aliasPattern}\\b`)
+    if (bare.test(remaining)) {
+      if (!mentioned.includes(feedId)) mentioned.push(feedId)
+      remaining = remaining.replace(bare, ' ')
+    }
+  }
+
+  return { items, mentioned }
+}
+
+// Milk price in USD/kg from "$0.45/kg" or "$20/cwt"
+function extractMilkPrice(query: string): number | undefined {
+  const price = query.match(/\$\s*(\d+(?:\.\d+)?)\s*(?:\/|per)\s*(cwt|kg|l|litre|liter)\b/i)
+  if (!price) return undefined
+  const value = Number(price[1])
+  return price[2].toLowerCase() === 'cwt' ? value / 45.36 : value
+}
+
+const rationTool: HerdTool = {
+  name: 'ration',
+  description: 'Ration evaluation and balancing against NRC requirements, with feed cost and income over feed cost',
+  pattern: /\b(rations?|tmr|diets?|formulat\w*|income over feed( cost)?|iofc|feed costs?|dry matter intake|dmi|balance\w* (a |the |my |our )?(feed|mix))\b/i,
+  standalone: true,
+  async run(query) {
+    const { items, mentioned } = extractRationItems(query)
+    const milkPrice = extractMilkPrice(query)
+
+    // Group production from the question, else the herd's latest tests, else a typical group
+    const milk = query.match(/(\d+(?:\.\d+)?)\s*(?:kg|kilos?)\s*(?:\/\s*(?:day|d|cow)\s*)?(?:of\s+)?milk|milk(?:ing)?\s*(?:of|at|:)?\s*(\d+(?:\.\d+)?)\s*kg/i)
+    const bodyWeight = query.match(/(\d{3,4})\s*kg\s*(?:body ?weight|bw|cows?)\b|(?:body ?weight|bw)\s*(?:of|:)?\s*(\d{3,4})/i)
+    const herd = milk ? null : await latestGroupProduction(extractParityGroup(query)).catch(() => null)
+
+    const group: RationGroup = {
+      ...DEFAULT_GROUP,
+      milk: milk ? Number(milk[1] || milk[2]) : herd?.milk ?? DEFAULT_GROUP.milk,
+      bodyWeight: bodyWeight ? Number(bodyWeight[1] || bodyWeight[2]) : DEFAULT_GROUP.bodyWeight,
+      fatPct: herd?.fatPct ?? DEFAULT_GROUP.fatPct,
+      proteinPct: herd?.proteinPct ?? DEFAULT_GROUP.proteinPct
+    }
+    const groupSource = milk
+      ? 'from the question'
+      : herd ? `herd average at the latest test (${herd.cows} cows)` : 'a typical group; no test-day data or milk yield given'
+
+    const evaluation = items.length > 0
+      ? evaluateRation(group, items, { milkPrice })
+      : balanceRation(group, { feedIds: mentioned, milkPrice })
+    const mode = items.length > 0 ? 'Evaluated' : 'Balanced'
+    const { requirements, totals, iofc } = evaluation
+
+    const feedRows = evaluation.lines.map(line => [line.feed, line.kgAsFed, line.kgDM, line.pctOfDM, line.costPerDay])
+    const nutrientRows = [
+      ['Dry matter (kg)', totals.kgDM, requirements.dmi],
+      ['NEL (Mcal)', totals.nel, requirements.nel],
+      ['Crude protein (% DM)', totals.cpPct, requirements.cpPct],
+      ['NDF (% DM)', totals.ndfPct, `${requirements.ndfMinPct}-${requirements.ndfMaxPct}`],
+      ['Forage (% DM)', totals.foragePct, `>= ${requirements.foragePctMin}`],
+      ['Feed cost ($/cow/day)', totals.costPerDay, null],
+      ['Income over feed cost ($/cow/day)', iofc.iofc, null]
+    ]
+
+    const artifacts: AnalysisArtifact[] = [
+      {
+        kind: 'table',
+        title: `${mode} ration per cow per day`,
+        columns: ['feed', 'kg_as_fed', 'kg_dm', 'pct_of_dm', 'cost_per_day'],
+        rows: feedRows
+      },
+      {
+        kind: 'table',
+        title: 'Supplied vs required',
+        columns: ['nutrient', 'supplied', 'requirement'],
+        rows: nutrientRows
+      }
+    ]
+
+    const summary = `${mode} ration for a group producing ${group.milk} kg milk (${group.fatPct}% fat, ${group.proteinPct}% protein), ${group.bodyWeight} kg body weight, ${group.dim} DIM; group values ${groupSource}.
+Requirements use NRC 2001 equations; feed values and prices come from the built-in feed library.
+
+Ration (per cow per day):
+${markdownTable(['feed', 'kg as fed', 'kg DM', '% of DM', 'cost $/day'], feedRows)}
+
+Supplied vs required:
+${markdownTable(['nutrient', 'supplied', 'requirement'], nutrientRows)}
+
+Energy supports ${evaluation.energyAllowableMilk} kg milk. Milk income $${iofc.milkIncome}/cow/day at $${iofc.milkPrice.toFixed(3)}/kg, feed cost $${iofc.feedCost}, income over feed cost $${iofc.iofc}.
+${evaluation.warnings.length > 0 ? `Warnings:\n${evaluation.warnings.map(warning => `- ${warning}`).join('\n')}` : 'No nutrient warnings.'}`
+
+    return { summary, artifacts }
+  }
+}
+
+export const HERD_TOOLS: HerdTool[] = [lactationCurveTool, udderHealthTool, calendarTool, reproductionTool, rationTool]
+
+// Pick the herd tool that matches the question, if any
+export function selectHerdTool(query: string): HerdTool | null {
+  return HERD_TOOLS.find(tool => tool.pattern.test(query)) || null
+}
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { analyzeUdderHealth, linearScore } from '@/lib/herd/udder-health'
+
+const { testDays } = vi.hoisted(() => ({ testDays: [] as any[] }))
+vi.mock('@/lib/db', () => ({
+  db: {
+    testDay: {
+      findMany: async ({ where }: any) => testDays
+        .filter(test => !where.animal || test.animal.cowId === where.animal.cowId)
+        .sort((a, b) => a.testDate - b.testDate)
+    }
+  }
+}))
+
+function test(cowId: string, date: string, scc: number, milk: number | null) {
+  testDays.push({ testDate: new Date(`${date}T00:00:00Z`), scc, milk, animal: { cowId }, lactation: { number: 2 } })
+}
+
+beforeEach(() => {
+  testDays.length = 0
+  test('A', '2024-01-10', 100, 30)
+  test('B', '2024-01-10', 300, 10)
+  test('D', '2024-01-10', 100, 20)
+  test('A', '2024-02-10', 300, 30)
+  test('B', '2024-02-10', 150, 10)
+  test('D', '2024-02-10', 250, 20)
+  test('A', '2024-03-10', 400, 30)
+  test('C', '2024-03-10', 250, 25)
+  test('E', '2024-03-10', 80, null)
+})
+
+describe('linearScore', () => {
+  it('follows LS = log2(SCC / 100) + 3', () => {
+    expect(linearScore(100)).toBe(3)
+    expect(linearScore(200)).toBe(4)
+    expect(linearScore(50)).toBe(2)
+    expect(linearScore(283)).toBe(4.5)
+  })
+})
+
+describe('analyzeUdderHealth', () => {
+  it('classifies each cow by her latest test against the previous one', async () => {
+    const report = await analyzeUdderHealth()
+
+    expect(report.cows.map(cow => [cow.cowId, cow.status, cow.consecutiveHigh])).toEqual([
+      ['A', 'chronic', 2],
+      ['D', 'new_infection', 1],
+      ['C', 'fresh_infection', 1],
+      ['B', 'cured', 0],
+      ['E', 'healthy', 0]
+    ])
+    expect(report.cows[0]).toMatchObject({ scc: 400, previousScc: 300, linearScore: 5, lactation: 2 })
+    expect(report.summary).toEqual({ cows: 5, healthy: 1, new_infection: 1, chronic: 1, cured: 1, fresh_infection: 1, highPct: 60 })
+  })
+
+  it('tracks milk-weighted SCC and infection rates per test date', async () => {
+    const { trend } = await analyzeUdderHealth()
+
+    expect(trend.map(point => point.testDate)).toEqual(['2024-01-10', '2024-02-10', '2024-03-10'])
+    expect(trend[1]).toEqual({
+      testDate: '2024-02-10',
+      cows: 3,
+      weightedScc: 258,
+      averageLinearScore: 4.16,
+      highPct: 66.7,
+      newInfectionPct: 100,
+      chronicPct: 0
+    })
+    // Tests without a milk weight are left out of the weighted SCC
+    expect(trend[2].weightedScc).toBe(332)
+  })
+
+  it('applies a custom threshold and cow filter', async () => {
+    const report = await analyzeUdderHealth({ threshold: 350, cowId: 'A' })
+    expect(report.threshold).toBe(350)
+    expect(report.cows).toHaveLength(1)
+    expect(report.cows[0]).toMatchObject({ cowId: 'A', status: 'new_infection', consecutiveHigh: 1 })
+  })
+})
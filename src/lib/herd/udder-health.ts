@@ -0,0 +1,175 @@
+import { db } from '@/lib/db'
+
+// Udder health monitoring from test-day SCC. Each cow's latest test is
+// classified against the previous test in the same lactation (new infection,
+// chronic, cured, fresh-cow infection), and herd-level SCC is tracked per test
+// date as a milk-weighted estimate of bulk tank SCC.
+
+export type UdderStatus = 'healthy' | 'new_infection' | 'chronic' | 'cured' | 'fresh_infection'
+
+export interface CowUdderStatus {
+  cowId: string
+  lactation: number | null
+  testDate: Date
+  scc: number
+  linearScore: number
+  previousScc: number | null
+  status: UdderStatus
+  // Consecutive tests above the threshold, ending with the latest test
+  consecutiveHigh: number
+}
+
+export interface HerdSccPoint {
+  testDate: string
+  cows: number
+  // Milk-weighted SCC (x1000 cells/mL), an estimate of bulk tank SCC
+  weightedScc: number
+  averageLinearScore: number
+  highPct: number
+  newInfectionPct: number | null
+  chronicPct: number | null
+}
+
+export interface UdderHealthReport {
+  threshold: number
+  summary: Record<UdderStatus, number> & { cows: number; highPct: number }
+  trend: HerdSccPoint[]
+  cows: CowUdderStatus[]
+}
+
+// Standard new-infection threshold (x1000 cells/mL)
+export const DEFAULT_SCC_THRESHOLD = 200
+// Consecutive high tests before a cow counts as chronic
+const CHRONIC_TESTS = 2
+const TREND_TEST_DATES = 12
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits
+
+// Linear score from SCC in thousands of cells/mL: LS = log2(SCC / 100) + 3
+export function linearScore(scc: number): number {
+  return round(Math.log2(Math.max(scc, 1) / 100) + 3, 2)
+}
+
+function classify(current: number, previous: number | null, consecutiveHigh: number, threshold: number): UdderStatus {
+  if (current <= threshold) return previous !== null && previous > threshold ? 'cured' : 'healthy'
+  if (previous === null) return 'fresh_infection'
+  if (consecutiveHigh >= CHRONIC_TESTS) return 'chronic'
+  return 'new_infection'
+}
+
+// Classify every cow's latest test and build the herd SCC trend
+export async function analyzeUdderHealth(
+  options: { threshold?: number; cowId?: string } = {}
+): Promise<UdderHealthReport> {
+  const threshold = options.threshold || DEFAULT_SCC_THRESHOLD
+
+  const testDays = await db.testDay.findMany({
+    where: {
+      scc: { not: null },
+      ...(options.cowId ? { animal: { cowId: options.cowId } } : {})
+    },
+    include: {
+      animal: { select: { cowId: true } },
+      lactation: { select: { number: true } }
+    },
+    orderBy: { testDate: 'asc' }
+  })
+
+  // Per-test classification within each cow lactation
+  const byLactation = new Map<string, typeof testDays>()
+  for (const testDay of testDays) {
+    const key = `${testDay.animal.cowId}:${testDay.lactation?.number ?? '?'}`
+    const list = byLactation.get(key) || []
+    list.push(testDay)
+    byLactation.set(key, list)
+  }
+
+  const classified: (CowUdderStatus & { milk: number | null })[] = []
+  for (const tests of byLactation.values()) {
+    let consecutiveHigh = 0
+    tests.forEach((test, index) => {
+      const scc = test.scc as number
+      const previous = index > 0 ? (tests[index - 1].scc as number) : null
+      consecutiveHigh = scc > threshold ? consecutiveHigh + 1 : 0
+
+      classified.push({
+        cowId: test.animal.cowId,
+        lactation: test.lactation?.number ?? null,
+        testDate: test.testDate,
+        scc,
+        linearScore: linearScore(scc),
+        previousScc: previous,
+        status: classify(scc, previous, consecutiveHigh, threshold),
+        consecutiveHigh,
+        milk: test.milk
+      })
+    })
+  }
+
+  // Herd trend per test date
+  const byDate = new Map<string, typeof classified>()
+  for (const test of classified) {
+    const date = test.testDate.toISOString().slice(0, 10)
+    const list = byDate.get(date) || []
+    list.push(test)
+    byDate.set(date, list)
+  }
+
+  const trend: HerdSccPoint[] = Array.from(byDate.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .slice(-TREND_TEST_DATES)
+    .map(([testDate, tests]) => {
+      const weighted = tests.filter(test => test.milk !== null && test.milk > 0)
+      const totalMilk = weighted.reduce((sum, test) => sum + (test.milk as number), 0)
+      const weightedScc = totalMilk > 0
+        ? weighted.reduce((sum, test) => sum + test.scc * (test.milk as number), 0) / totalMilk
+        : tests.reduce((sum, test) => sum + test.scc, 0) / tests.length
+      const withPrevious = tests.filter(test => test.previousScc !== null)
+      const lowBefore = withPrevious.filter(test => (test.previousScc as number) <= threshold)
+      const highBefore = withPrevious.filter(test => (test.previousScc as number) > threshold)
+
+      return {
+        testDate,
+        cows: tests.length,
+        weightedScc: round(weightedScc, 0),
+        averageLinearScore: round(tests.reduce((sum, test) => sum + test.linearScore, 0) / tests.length, 2),
+        highPct: round((tests.filter(test => test.scc > threshold).length / tests.length) * 100),
+        // New infections among cows low at their previous test; chronic among cows already high
+        newInfectionPct: lowBefore.length > 0
+          ? round((lowBefore.filter(test => test.scc > threshold).length / lowBefore.length) * 100)
+          : null,
+        chronicPct: highBefore.length > 0
+          ? round((highBefore.filter(test => test.scc > threshold).length / highBefore.length) * 100)
+          : null
+      }
+    })
+
+  // Latest test per cow
+  const latestByCow = new Map<string, CowUdderStatus>()
+  for (const test of classified) {
+    const existing = latestByCow.get(test.cowId)
+    if (!existing || test.testDate >= existing.testDate) {
+      const { milk: _milk, ...status } = test
+      latestByCow.set(test.cowId, status)
+    }
+  }
+
+  const severity: Record<UdderStatus, number> = { chronic: 0, new_infection: 1, fresh_infection: 2, cured: 3, healthy: 4 }
+  const cows = Array.from(latestByCow.values())
+    .sort((a, b) => severity[a.status] - severity[b.status] || b.scc - a.scc)
+
+  const summary = {
+    cows: cows.length,
+    healthy: 0,
+    new_infection: 0,
+    chronic: 0,
+    cured: 0,
+    fresh_infection: 0,
+    highPct: cows.length > 0 ? round((cows.filter(cow => cow.scc > threshold).length / cows.length) * 100) : 0
+  }
+  cows.forEach(cow => {
+    summary[cow.status]++
+  })
+
+  return { threshold, summary, trend, cows }
+}
@@ -0,0 +1,209 @@
+import { db } from '@/lib/db'
+import { ingestDocument } from '@/lib/documents/ingest'
+import { ingestFarmDataFile } from '@/lib/farm-data/ingest'
+import { findDocumentsMissingEmbeddings, indexMissingChunks } from '@/lib/vector-index'
+import { indexMissingChunksLexical } from '@/lib/lexical-index'
+
+// Persistent ingestion queue in SQLite. Uploads store the file and enqueue a
+// job; one in-process worker claims queued jobs oldest first, records progress
+// on the job row and retries failures with exponential backoff. Jobs left
+// `processing` by a stopped server are queued again when the worker starts.
+// Chunks that could not be embedded get their own `embeddings` job, so a
+// provider outage is retried here rather than on every chat query.
+
+export type IngestionJobKind = 'document' | 'farm_data' | 'embeddings'
+export type IngestionJobStatus = 'queued' | 'processing' | 'done' | 'failed'
+
+type JobHandler = (targetId: string, onProgress: (progress: number, stage: string) => Promise<void>) => Promise<unknown>
+
+const JOB_HANDLERS: Record<IngestionJobKind, JobHandler> = {
+  document: ingestDocumentWithBackfill,
+  farm_data: ingestFarmDataFile,
+  embeddings: backfillEmbeddings
+}
+
+const MAX_ATTEMPTS = 3
+// Delay before the first retry, doubled for each further attempt
+const RETRY_DELAY_MS = 5000
+// How often the worker checks for jobs whose retry delay has passed
+const POLL_INTERVAL_MS = 1000
+
+// Finished jobs stay in the status list this long so the UI can show the outcome
+export const RECENT_JOB_MS = 10 * 60 * 1000
+
+// The worker is kept on globalThis so dev-mode reloads do not start a second one
+const globalForQueue = globalThis as unknown as {
+  ingestionWorker: Promise<void> | null | undefined
+  ingestionRecovered: boolean | undefined
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+async function ingestDocumentWithBackfill(documentId: string, onProgress: (progress: number, stage: string) => Promise<void>) {
+  const result = await ingestDocument(documentId, onProgress)
+  if (result.embeddingsPending) {
+    const document = await db.document.findUnique({ where: { id: documentId }, select: { fileName: true } })
+    await enqueueIngestionJob('embeddings', documentId, document?.fileName ?? documentId)
+  }
+  return result
+}
+
+// Embed the chunks of a document that have no vector for the current model;
+// throws while the embedding provider is down so the job is retried
+async function backfillEmbeddings(documentId: string, onProgress: (progress: number, stage: string) => Promise<void>) {
+  await onProgress(0.1, 'Embedding chunks')
+  const embedded = await indexMissingChunks([documentId])
+  return { embedded }
+}
+
+// Queue backfills for documents indexed while embeddings failed or under another model
+async function enqueueMissingEmbeddings(): Promise<void> {
+  const documents = await findDocumentsMissingEmbeddings()
+  for (const document of documents) {
+    const pending = await db.ingestionJob.count({
+      where: { targetId: document.id, status: { in: ['queued', 'processing'] } }
+    })
+    if (pending === 0) {
+      await db.ingestionJob.create({
+        data: { kind: 'embeddings', targetId: document.id, fileName: document.fileName, maxAttempts: MAX_ATTEMPTS }
+      })
+    }
+  }
+}
+
+// Queue a stored file for ingestion and make sure the worker is running
+export async function enqueueIngestionJob(kind: IngestionJobKind, targetId: string, fileName: string) {
+  const job = await db.ingestionJob.create({
+    data: { kind, targetId, fileName, maxAttempts: MAX_ATTEMPTS }
+  })
+  startIngestionWorker()
+  return job
+}
+
+// Start the worker unless one is already running in this process
+export function startIngestionWorker(): void {
+  if (globalForQueue.ingestionWorker) return
+
+  globalForQueue.ingestionWorker = runWorker()
+    .catch(error => console.error('Ingestion worker error:', error))
+    .finally(() => {
+      globalForQueue.ingestionWorker = null
+    })
+}
+
+// Process jobs until none are queued, waiting out retry delays
+async function runWorker(): Promise<void> {
+  if (!globalForQueue.ingestionRecovered) {
+    globalForQueue.ingestionRecovered = true
+    await db.ingestionJob.updateMany({
+      where: { status: 'processing' },
+      data: { status: 'queued', stage: 'Interrupted, waiting to restart' }
+    })
+    try {
+      await enqueueMissingEmbeddings()
+    } catch (error: any) {
+      console.error('Embedding backfill check failed:', error)
+    }
+    // One-time catch-up for chunks stored before the lexical index existed
+    try {
+      await indexMissingChunksLexical()
+    } catch (error: any) {
+      console.error('Lexical backfill failed:', error)
+    }
+  }
+
+  while (true) {
+    const job = await claimNextJob()
+    if (job) {
+      await runJob(job)
+      continue
+    }
+
+    const waiting = await db.ingestionJob.count({ where: { status: 'queued' } })
+    if (waiting === 0) return
+    await sleep(POLL_INTERVAL_MS)
+  }
+}
+
+// Mark the oldest due job as processing; null when none is due
+async function claimNextJob() {
+  const next = await db.ingestionJob.findFirst({
+    where: { status: 'queued', runAfter: { lte: new Date() } },
+    orderBy: { createdAt: 'asc' }
+  })
+  if (!next) return null
+
+  const claimed = await db.ingestionJob.updateMany({
+    where: { id: next.id, status: 'queued' },
+    data: { status: 'processing', attempts: { increment: 1 }, startedAt: new Date() }
+  })
+  return claimed.count === 1 ? { ...next, attempts: next.attempts + 1 } : null
+}
+
+async function runJob(job: { id: string; kind: string; targetId: string; attempts: number; maxAttempts: number }) {
+  const onProgress = async (progress: number, stage: string) => {
+    await db.ingestionJob.update({
+      where: { id: job.id },
+      data: { progress: Math.min(1, Math.max(0, progress)), stage }
+    })
+  }
+
+  try {
+    const handler = JOB_HANDLERS[job.kind as IngestionJobKind]
+    if (!handler) throw new Error(`Unknown job kind: ${job.kind}`)
+
+    const result = await handler(job.targetId, onProgress)
+    await db.ingestionJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'done',
+        progress: 1,
+        stage: 'Done',
+        error: null,
+        result: JSON.stringify(result ?? null),
+        finishedAt: new Date()
+      }
+    })
+  } catch (error: any) {
+    console.error(`Ingestion job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}):`, error)
+    const message = error?.message || String(error)
+
+    if (job.attempts < job.maxAttempts) {
+      const delay = RETRY_DELAY_MS * 2 ** (job.attempts - 1)
+      await db.ingestionJob.update({
+        where: { id: job.id },
+        data: {
+          status: 'queued',
+          error: message,
+          stage: `Retrying in ${Math.round(delay / 1000)}s`,
+          runAfter: new Date(Date.now() + delay)
+        }
+      })
+    } else {
+      await db.ingestionJob.update({
+        where: { id: job.id },
+        data: { status: 'failed', error: message, stage: 'Failed', finishedAt: new Date() }
+      })
+    }
+  }
+}
+
+// Job row as returned by the status endpoints
+export function formatIngestionJob(job: any) {
+  return {
+    id: job.id,
+    kind: job.kind,
+    targetId: job.targetId,
+    fileName: job.fileName,
+    status: job.status as IngestionJobStatus,
+    stage: job.stage,
+    progress: job.progress,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    error: job.error,
+    result: job.result ? JSON.parse(job.result) : null,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt
+  }
+}
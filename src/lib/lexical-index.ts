@@ -0,0 +1,153 @@
+import { db } from '@/lib/db'
+
+// BM25 lexical index over document chunks, stored as an SQLite FTS5 table
+// next to the Prisma tables. The porter tokenizer stems terms at index and
+// query time ("calving"/"calves" -> "calv") and FTS5's bm25() supplies IDF
+// weighting; stop words are stripped from queries before matching.
+// Chunks are added during ingestion; searches only read the index.
+
+export interface LexicalMatch {
+  chunkId: string
+  documentId: string
+  score: number
+}
+
+const FTS_TABLE = 'document_chunk_fts'
+// Chunks loaded per query when backfilling the index
+const MISSING_BATCH_SIZE = 200
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'doing', 'down', 'during',
+  'each', 'few', 'for', 'from', 'further', 'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers',
+  'him', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'itself',
+  'just', 'me', 'more', 'most', 'my', 'no', 'nor', 'not', 'now', 'of', 'off', 'on', 'once', 'only', 'or',
+  'other', 'our', 'ours', 'out', 'over', 'own', 'same', 'she', 'should', 'so', 'some', 'such',
+  'than', 'that', 'the', 'their', 'theirs', 'them', 'then', 'there', 'these', 'they', 'this', 'those',
+  'through', 'to', 'too', 'under', 'until', 'up', 'very', 'was', 'we', 'were', 'what', 'when', 'where',
+  'which', 'while', 'who', 'whom', 'why', 'will', 'with', 'would', 'you', 'your', 'yours'
+])
+
+let ensurePromise: Promise<void> | null = null
+
+// Create the FTS5 table on first use (Prisma cannot declare virtual tables)
+export function ensureLexicalIndex(): Promise<void> {
+  if (!ensurePromise) {
+    ensurePromise = db.$executeRawUnsafe(
+      `CREATE VIRTUAL TABLE IF NOT EXISTS ${FTS_TABLE} USING fts5(
+        content,
+        chunk_id UNINDEXED,
+        document_id UNINDEXED,
+        tokenize = 'porter unicode61'
+      )`
+    ).then(() => undefined)
+      .catch((error: any) => {
+        ensurePromise = null
+        throw error
+      })
+  }
+  return ensurePromise!
+}
+
+// Split a query into lowercase terms with stop words removed
+export function tokenizeQuery(query: string): string[] {
+  const terms = query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(term => term.length > 1 && !STOP_WORDS.has(term))
+
+  return Array.from(new Set(terms))
+}
+
+function placeholders(count: number): string {
+  return new Array(count).fill('?').join(', ')
+}
+
+// Add chunks to the lexical index, replacing any existing rows for them
+export async function indexChunksLexical(
+  chunks: { id: string; documentId: string; content: string }[]
+): Promise<number> {
+  if (chunks.length === 0) return 0
+
+  await ensureLexicalIndex()
+
+  await db.$executeRawUnsafe(
+    `DELETE FROM ${FTS_TABLE} WHERE chunk_id IN (${placeholders(chunks.length)})`,
+    ...chunks.map(chunk => chunk.id)
+  )
+
+  for (const chunk of chunks) {
+    await db.$executeRawUnsafe(
+      `INSERT INTO ${FTS_TABLE} (content, chunk_id, document_id) VALUES (?, ?, ?)`,
+      chunk.content,
+      chunk.id,
+      chunk.documentId
+    )
+  }
+
+  return chunks.length
+}
+
+// Index chunks that are not yet in the lexical index, e.g. from before it existed.
+// chunk_id is UNINDEXED, so the indexed ids are read in one scan and compared here.
+export async function indexMissingChunksLexical(): Promise<number> {
+  await ensureLexicalIndex()
+
+  const indexed: { chunkId: string }[] = await db.$queryRawUnsafe(`SELECT chunk_id AS chunkId FROM ${FTS_TABLE}`)
+  const indexedIds = new Set(indexed.map(row => row.chunkId))
+
+  const chunkIds: { id: string }[] = await db.documentChunk.findMany({ select: { id: true } })
+  const missingIds = chunkIds.map(chunk => chunk.id).filter(id => !indexedIds.has(id))
+  if (missingIds.length === 0) return 0
+
+  let count = 0
+  for (let start = 0; start < missingIds.length; start += MISSING_BATCH_SIZE) {
+    const chunks = await db.documentChunk.findMany({
+      where: { id: { in: missingIds.slice(start, start + MISSING_BATCH_SIZE) } },
+      select: { id: true, documentId: true, content: true }
+    })
+    count += await indexChunksLexical(chunks)
+  }
+  return count
+}
+
+// Remove a document's chunks from the lexical index
+export async function removeDocumentLexical(documentId: string): Promise<void> {
+  await ensureLexicalIndex()
+  await db.$executeRawUnsafe(`DELETE FROM ${FTS_TABLE} WHERE document_id = ?`, documentId)
+}
+
+// BM25-ranked search across every chunk of the selected documents
+export async function searchLexical(
+  query: string,
+  documentIds: string[],
+  topK: number
+): Promise<LexicalMatch[]> {
+  const terms = tokenizeQuery(query)
+  if (terms.length === 0 || documentIds.length === 0) return []
+
+  await ensureLexicalIndex()
+
+  // Quote each term so FTS5 syntax characters in user text are treated literally
+  const matchExpression = terms.map(term => `"${term.replace(/"/g, '""')}"`).join(' OR ')
+
+  const rows: { chunkId: string; documentId: string; rank: number }[] = await db.$queryRawUnsafe(
+    `SELECT chunk_id AS chunkId, document_id AS documentId, bm25(${FTS_TABLE}) AS rank
+     FROM ${FTS_TABLE}
+     WHERE ${FTS_TABLE} MATCH ?
+       AND document_id IN (${placeholders(documentIds.length)})
+     ORDER BY rank
+     LIMIT ?`,
+    matchExpression,
+    ...documentIds,
+    topK
+  )
+
+  // bm25() returns lower-is-better negative values; flip so higher is better
+  return rows.map(row => ({
+    chunkId: row.chunkId,
+    documentId: row.documentId,
+    score: -Number(row.rank)
+  }))
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from 'vitest'
+import { normalizeRouteLabel, routeQuery, scoreRuleSignals } from '@/lib/query-router'
+import { fakeZai } from '@/lib/test-utils'
+
+describe('normalizeRouteLabel', () => {
+  it('maps free-form labels to known routes', () => {
+    expect(normalizeRouteLabel('rag.')).toBe('rag')
+    expect(normalizeRouteLabel('CSV_analysis')).toBe('csv_analysis')
+    expect(normalizeRouteLabel('Web Search')).toBe('web_search')
+    expect(normalizeRouteLabel('I would use the documents here')).toBe('rag')
+  })
+
+  it('returns null for unknown or empty labels', () => {
+    expect(normalizeRouteLabel('banana')).toBeNull()
+    expect(normalizeRouteLabel('')).toBeNull()
+    expect(normalizeRouteLabel(null)).toBeNull()
+  })
+})
+
+describe('scoreRuleSignals', () => {
+  it('scores data questions only when files are selected', () => {
+    const withFiles = scoreRuleSignals('What is the average SCC of my herd?', 0, 2)
+    expect(withFiles.scores.csv_analysis).toBe(1)
+    expect(withFiles.signals).toEqual(['csv_files:2', 'data_terms'])
+
+    expect(scoreRuleSignals('What is the average SCC of my herd?', 0, 0).scores.csv_analysis).toBe(0)
+  })
+
+  it('scores knowledge questions for documents and recency for the web', () => {
+    const { scores, signals } = scoreRuleSignals('What are the latest guidelines for dry cow therapy?', 3, 0)
+    expect(scores.rag).toBeCloseTo(0.9)
+    expect(scores.web_search).toBeCloseTo(0.9)
+    expect(scores.hybrid).toBeCloseTo(0.7)
+    expect(signals).toEqual(['documents:3', 'knowledge_terms', 'recency_terms'])
+  })
+
+  it('recognises small talk', () => {
+    expect(scoreRuleSignals('Hello there', 0, 0).signals).toEqual(['small_talk'])
+  })
+})
+
+describe('routeQuery', () => {
+  it('skips the LLM when the rules are decisive', async () => {
+    const { zai, create } = fakeZai('rag')
+    const decision = await routeQuery(zai, 'How many cows have SCC over 200 in my herd?', [], ['file-1'])
+
+    expect(decision.route).toBe('csv_analysis')
+    expect(decision.confidence).toBeGreaterThanOrEqual(0.75)
+    expect(decision.signals).toContain('rules_only')
+    expect(create).not.toHaveBeenCalled()
+  })
+
+  it('adds a valid LLM label to the rule scores', async () => {
+    const { zai, create } = fakeZai('Web search')
+    const decision = await routeQuery(zai, 'Tell me about robotic milking', ['doc-1'], [])
+
+    expect(create).toHaveBeenCalledOnce()
+    expect(decision.route).toBe('web_search')
+    expect(decision.llmLabel).toBe('Web search')
+    expect(decision.signals).toContain('llm:web_search')
+  })
+
+  it('ignores LLM labels for routes that cannot run', async () => {
+    const { zai } = fakeZai('csv_analysis')
+    const decision = await routeQuery(zai, 'Tell me about robotic milking', [], [])
+
+    expect(decision.route).toBe('general')
+    expect(decision.scores.csv_analysis).toBe(0)
+  })
+
+  it('records invalid and unavailable LLM replies', async () => {
+    expect((await routeQuery(fakeZai('banana').zai, 'Tell me about calves', [], [])).signals).toContain('llm:invalid_label')
+
+    const failing = fakeZai(new Error('offline'))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const decision = await routeQuery(failing.zai, 'Tell me about calves', [], [])
+    expect(decision.signals).toContain('llm:unavailable')
+    expect(decision.route).toBe('general')
+  })
+})
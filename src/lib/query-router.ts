@@ -0,0 +1,220 @@
+// Query router: rule-based signals pre-classify each query, the LLM label is
+// normalized and validated against the allowed routes, and both are combined
+// into a final route with a confidence score.
+
+export type QueryRoute = 'csv_analysis' | 'rag' | 'web_search' | 'hybrid' | 'general'
+
+export const QUERY_ROUTES: QueryRoute[] = ['csv_analysis', 'rag', 'web_search', 'hybrid', 'general']
+
+export interface RouteDecision {
+  route: QueryRoute
+  confidence: number
+  llmLabel: string | null
+  signals: string[]
+  scores: Record<QueryRoute, number>
+}
+
+// Weight of a valid LLM label relative to the rule signals
+const LLM_WEIGHT = 1.0
+// Rule-only confidence and score at which the LLM call is skipped
+const RULE_CONFIDENCE_THRESHOLD = 0.75
+const STRONG_SIGNAL_SCORE = 1.0
+// Baseline so queries with no signals fall through to general chat
+const GENERAL_BASELINE = 0.2
+
+const LABEL_ALIASES: Record<string, QueryRoute> = {
+  csv_analysis: 'csv_analysis',
+  csv: 'csv_analysis',
+  csvanalysis: 'csv_analysis',
+  excel: 'csv_analysis',
+  data: 'csv_analysis',
+  data_analysis: 'csv_analysis',
+  farm_data: 'csv_analysis',
+  rag: 'rag',
+  document: 'rag',
+  documents: 'rag',
+  docs: 'rag',
+  web_search: 'web_search',
+  websearch: 'web_search',
+  web: 'web_search',
+  search: 'web_search',
+  internet: 'web_search',
+  hybrid: 'hybrid',
+  both: 'hybrid',
+  general: 'general',
+  chat: 'general',
+  general_chat: 'general'
+}
+
+const DATA_PATTERN = /\b(my|our)\s+(herd|cows?|farm|data|file|records?)\b|\b(csv|excel|spreadsheet|column|rows?|dataset|uploaded data|file)\b|\b(cow\s*(id|#|number)|test[- ]day|dim|scc|lactation|parity|yield|milk production|average|mean|total|how many|top \d+|highest|lowest|trend|preg(nancy)? rates?|conception|days open|calving intervals?|heat detection|services per|dry(ing)?[- ]?off|due to calve|preg(nancy)? checks?)\b/i
+const RECENCY_PATTERN = /\b(latest|current(ly)?|today|this (week|month|year)|recent(ly)?|news|new (regulation|rule|law|technology)s?|price|prices|market|forecast|20[2-9]\d)\b/i
+const KNOWLEDGE_PATTERN = /\b(how (to|do|should|can)|what (is|are)|why|recommend(ed|ation)?s?|best practices?|guidelines?|protocol|manual|according to|explain|cause|symptoms?|treat(ment)?|prevent(ion)?)\b/i
+const SMALL_TALK_PATTERN = /^\s*(hi|hello|hey|thanks|thank you|good (morning|afternoon|evening)|who are you|what can you do)\b/i
+
+function emptyScores(): Record<QueryRoute, number> {
+  return { csv_analysis: 0, rag: 0, web_search: 0, hybrid: 0, general: GENERAL_BASELINE }
+}
+
+// Map a free-form LLM label ("rag.", "CSV_analysis", "Web Search") to a known route
+export function normalizeRouteLabel(raw: string | null | undefined): QueryRoute | null {
+  if (!raw) return null
+
+  const cleaned = raw
+    .toLowerCase()
+    .replace(/[^a-z_\s-]/g, ' ')
+    .trim()
+    .replace(/[\s-]+/g, '_')
+
+  if (LABEL_ALIASES[cleaned]) return LABEL_ALIASES[cleaned]
+
+  // Fall back to the first known label mentioned anywhere in the reply
+  for (const word of cleaned.split('_')) {
+    if (LABEL_ALIASES[word]) return LABEL_ALIASES[word]
+  }
+
+  return null
+}
+
+// Score each route from deterministic signals in the query and available resources
+export function scoreRuleSignals(
+  query: string,
+  documentCount: number,
+  csvFileCount: number
+): { scores: Record<QueryRoute, number>; signals: string[] } {
+  const scores = emptyScores()
+  const signals: string[] = []
+
+  const mentionsData = DATA_PATTERN.test(query)
+  const mentionsRecency = RECENCY_PATTERN.test(query)
+  const asksKnowledge = KNOWLEDGE_PATTERN.test(query)
+
+  if (csvFileCount > 0) {
+    signals.push(`csv_files:${csvFileCount}`)
+    if (mentionsData) {
+      scores.csv_analysis += 1.0
+      signals.push('data_terms')
+    }
+  }
+
+  if (documentCount > 0) {
+    signals.push(`documents:${documentCount}`)
+    scores.rag += 0.3
+    if (asksKnowledge) {
+      scores.rag += 0.6
+      signals.push('knowledge_terms')
+    }
+  }
+
+  if (mentionsRecency) {
+    signals.push('recency_terms')
+    scores.web_search += 0.9
+    if (documentCount > 0) {
+      scores.hybrid += 0.7
+    }
+  }
+
+  if (SMALL_TALK_PATTERN.test(query)) {
+    scores.general += 1.0
+    signals.push('small_talk')
+  }
+
+  return { scores, signals }
+}
+
+// Remove routes that cannot run with the resources the user selected
+function applyFeasibility(scores: Record<QueryRoute, number>, documentCount: number, csvFileCount: number) {
+  if (csvFileCount === 0) scores.csv_analysis = 0
+  if (documentCount === 0) {
+    scores.rag = 0
+    scores.hybrid = 0
+  }
+}
+
+// Pick the highest-scoring route and its share of the total score
+function decide(scores: Record<QueryRoute, number>): { route: QueryRoute; confidence: number } {
+  let route: QueryRoute = 'general'
+  for (const candidate of QUERY_ROUTES) {
+    if (scores[candidate] > scores[route]) route = candidate
+  }
+
+  const total = QUERY_ROUTES.reduce((sum, candidate) => sum + scores[candidate], 0)
+  const confidence = total > 0 ? scores[route] / total : 0
+
+  return { route, confidence: Math.round(confidence * 100) / 100 }
+}
+
+// Ask the LLM for a single route label
+async function classifyWithLLM(
+  zai: any,
+  query: string,
+  documentCount: number,
+  csvFileCount: number
+): Promise<string | null> {
+  const prompt = `Analyze this query and determine the best approach:
+
+Query: "${query}"
+
+Available resources:
+- ${documentCount} documents (dairy manuals, scientific papers, SOPs, training decks)
+- ${csvFileCount} CSV/Excel files (farm data)
+
+Determine if the query needs:
+1. CSV/Excel data analysis (keywords: cow, milk, production, average, data, file, csv, excel, herd, yield)
+2. RAG from documents (dairy farming domain knowledge)
+3. Web search (current information, latest trends)
+4. Hybrid approach (both documents and web search)
+5. General chat (no specific resources needed)
+
+Respond with ONLY one word: csv_analysis, rag, web_search, hybrid, or general`
+
+  try {
+    const completion = await zai.chat.completions.create({
+      messages: [
+        { role: 'assistant', content: 'You are a query routing assistant. Respond with ONLY one word.' },
+        { role: 'user', content: prompt }
+      ],
+      thinking: { type: 'disabled' }
+    })
+
+    return completion.choices[0]?.message?.content?.trim() || null
+  } catch (error) {
+    console.error('Query routing error:', error)
+    return null
+  }
+}
+
+// Route a query using rule signals, falling back to the LLM when rules are not decisive
+export async function routeQuery(
+  zai: any,
+  query: string,
+  documentIds: string[],
+  csvFileIds: string[]
+): Promise<RouteDecision> {
+  const documentCount = documentIds.length
+  const csvFileCount = csvFileIds.length
+
+  const { scores, signals } = scoreRuleSignals(query, documentCount, csvFileCount)
+  applyFeasibility(scores, documentCount, csvFileCount)
+
+  const ruleDecision = decide(scores)
+  if (
+    ruleDecision.confidence >= RULE_CONFIDENCE_THRESHOLD &&
+    scores[ruleDecision.route] >= STRONG_SIGNAL_SCORE
+  ) {
+    return { ...ruleDecision, llmLabel: null, signals: [...signals, 'rules_only'], scores }
+  }
+
+  const llmLabel = await classifyWithLLM(zai, query, documentCount, csvFileCount)
+  const llmRoute = normalizeRouteLabel(llmLabel)
+
+  if (llmRoute) {
+    scores[llmRoute] += LLM_WEIGHT
+    signals.push(`llm:${llmRoute}`)
+  } else {
+    signals.push(llmLabel ? 'llm:invalid_label' : 'llm:unavailable')
+  }
+
+  applyFeasibility(scores, documentCount, csvFileCount)
+
+  return { ...decide(scores), llmLabel, signals, scores }
+}
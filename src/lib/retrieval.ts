@@ -0,0 +1,173 @@
+import { db } from '@/lib/db'
+import { searchSimilarChunks } from '@/lib/vector-index'
+import { searchLexical } from '@/lib/lexical-index'
+
+// Hybrid chunk retrieval: BM25 and vector search are fused with reciprocal
+// rank fusion, then an LLM scores each fused candidate against the query
+// (cross-encoder style) before the final top-k is chosen.
+
+export interface RetrievalScores {
+  lexicalRank?: number
+  lexicalScore?: number
+  semanticRank?: number
+  semanticScore?: number
+  fusedScore: number
+  rerankScore?: number
+}
+
+export interface RetrievedChunk {
+  id: string
+  documentId: string
+  chunkIndex: number
+  content: string
+  metadata: string | null
+  document: any
+  scores: RetrievalScores
+}
+
+export interface RetrievalOptions {
+  topK?: number
+  candidatePool?: number
+  rerank?: boolean
+}
+
+const RRF_K = 60
+const RERANK_BATCH_SIZE = 10
+const RERANK_PASSAGE_CHARS = 700
+
+// Combine ranked lists with reciprocal rank fusion
+function fuseRankings(
+  lexicalMatches: { chunkId: string; score: number }[],
+  semanticMatches: { chunkId: string; score: number }[]
+): Map<string, RetrievalScores> {
+  const fused = new Map<string, RetrievalScores>()
+
+  lexicalMatches.forEach((match, index) => {
+    const entry = fused.get(match.chunkId) || { fusedScore: 0 }
+    entry.lexicalRank = index + 1
+    entry.lexicalScore = match.score
+    entry.fusedScore += 1 / (RRF_K + index + 1)
+    fused.set(match.chunkId, entry)
+  })
+
+  semanticMatches.forEach((match, index) => {
+    const entry = fused.get(match.chunkId) || { fusedScore: 0 }
+    entry.semanticRank = index + 1
+    entry.semanticScore = match.score
+    entry.fusedScore += 1 / (RRF_K + index + 1)
+    fused.set(match.chunkId, entry)
+  })
+
+  return fused
+}
+
+// Ask the LLM to grade a batch of passages for relevance to the query (0-10)
+async function rerankBatch(zai: any, query: string, passages: string[]): Promise<number[] | null> {
+  const numbered = passages
+    .map((passage, index) => `[${index + 1}] ${passage.slice(0, RERANK_PASSAGE_CHARS)}`)
+    .join('\n\n')
+
+  const prompt = `Rate how well each passage answers the question on a scale of 0 (irrelevant) to 10 (directly answers it).
+
+Question: "${query}"
+
+Passages:
+${numbered}
+
+Respond with ONLY a JSON array of ${passages.length} numbers, one score per passage in order.`
+
+  const completion = await zai.chat.completions.create({
+    messages: [
+      { role: 'assistant', content: 'You are a relevance grading assistant. Respond with ONLY a JSON array of numbers.' },
+      { role: 'user', content: prompt }
+    ],
+    thinking: { type: 'disabled' }
+  })
+
+  const content: string = completion.choices[0]?.message?.content || ''
+  const arrayMatch = content.match(/\[[\s\S]*?\]/)
+  if (!arrayMatch) return null
+
+  try {
+    const scores = JSON.parse(arrayMatch[0])
+    if (!Array.isArray(scores) || scores.length !== passages.length) return null
+    return scores.map(score => {
+      const value = Number(score)
+      return Number.isFinite(value) ? Math.max(0, Math.min(10, value)) : 0
+    })
+  } catch {
+    return null
+  }
+}
+
+// Retrieve the most relevant chunks across all selected documents
+export async function retrieveRelevantChunks(
+  zai: any,
+  query: string,
+  documentIds: string[],
+  options: RetrievalOptions = {}
+): Promise<RetrievedChunk[]> {
+  const topK = options.topK ?? 5
+  const candidatePool = options.candidatePool ?? 30
+  const rerank = options.rerank ?? process.env.RAG_RERANK !== 'false'
+
+  if (documentIds.length === 0) return []
+
+  // BM25 retrieval from the lexical index
+  let lexicalMatches: { chunkId: string; score: number }[] = []
+  try {
+    lexicalMatches = await searchLexical(query, documentIds, candidatePool)
+  } catch (error: any) {
+    console.error('Lexical search error:', error)
+  }
+
+  // Semantic retrieval from the vector index
+  let semanticMatches: { chunkId: string; score: number }[] = []
+  try {
+    semanticMatches = await searchSimilarChunks(query, documentIds, candidatePool)
+  } catch (error: any) {
+    console.error('Vector search error:', error)
+  }
+
+  const fused = fuseRankings(lexicalMatches, semanticMatches)
+  const candidateIds = Array.from(fused.entries())
+    .sort((a, b) => b[1].fusedScore - a[1].fusedScore)
+    .slice(0, candidatePool)
+    .map(([chunkId]) => chunkId)
+
+  if (candidateIds.length === 0) return []
+
+  const chunks = await db.documentChunk.findMany({
+    where: { id: { in: candidateIds } },
+    include: { document: true }
+  })
+  const chunksById = new Map<string, any>(chunks.map(chunk => [chunk.id, chunk]))
+
+  const candidates: RetrievedChunk[] = candidateIds
+    .filter(chunkId => chunksById.has(chunkId))
+    .map(chunkId => ({ ...chunksById.get(chunkId), scores: fused.get(chunkId)! }))
+
+  // Rerank fused candidates; unscored candidates keep their fused order after scored ones
+  if (rerank && candidates.length > topK) {
+    for (let i = 0; i < candidates.length; i += RERANK_BATCH_SIZE) {
+      const batch = candidates.slice(i, i + RERANK_BATCH_SIZE)
+      try {
+        const scores = await rerankBatch(zai, query, batch.map(chunk => chunk.content))
+        if (scores) {
+          batch.forEach((chunk, index) => {
+            chunk.scores.rerankScore = scores[index]
+          })
+        }
+      } catch (error: any) {
+        console.error('Rerank error:', error)
+      }
+    }
+
+    candidates.sort((a, b) => {
+      const rerankDelta = (b.scores.rerankScore ?? -1) - (a.scores.rerankScore ?? -1)
+      return rerankDelta !== 0 ? rerankDelta : b.scores.fusedScore - a.scores.fusedScore
+    })
+  }
+
+  return candidates.slice(0, topK)
+}
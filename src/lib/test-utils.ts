@@ -0,0 +1,11 @@
+import { vi } from 'vitest'
+
+// Minimal stand-in for the LLM client in unit tests; every completion replies
+// with the given content, or throws the given error
+export function fakeZai(reply: string | Error) {
+  const create = vi.fn(async () => {
+    if (reply instanceof Error) throw reply
+    return { choices: [{ message: { content: reply } }] }
+  })
+  return { zai: { chat: { completions: { create } } }, create }
+}
@@ -0,0 +1,11 @@
+import { basename } from 'path'
+
+// Names for uploaded files stored on disk. The client's file name is kept in
+// the database for display; the stored name is reduced to safe characters so
+// it can never contain path separators or point outside the uploads folder.
+
+// Timestamped file name for an upload, e.g. "1718000000000-herd_export.csv"
+export function storedFileName(originalName: string): string {
+  const safe = basename(originalName.replace(/\\/g, '/')).replace(/[^\w.-]/g, '_').replace(/^\.+/, '')
+  return `${Date.now()}-${safe || 'upload'}`
+}
@@ -0,0 +1,154 @@
+import { db } from '@/lib/db'
+import { embedTexts, getEmbeddingProvider, EmbeddingProvider } from '@/lib/embeddings'
+
+// Local vector index backed by the ChunkEmbedding table.
+// Vectors are L2-normalized before storage so cosine similarity is a dot product.
+// Chunks are embedded during ingestion; chunks left without a vector for the
+// current model are backfilled by the ingestion queue, never at query time.
+
+// Matches below this cosine similarity are dropped so unrelated questions find nothing
+const DEFAULT_MIN_SIMILARITY = 0.3
+
+export interface VectorMatch {
+  chunkId: string
+  documentId: string
+  score: number
+}
+
+// Similarity floor, overridable with VECTOR_MIN_SIMILARITY
+export function minSimilarity(): number {
+  const configured = Number(process.env.VECTOR_MIN_SIMILARITY)
+  return Number.isFinite(configured) && configured >= 0 && configured < 1 ? configured : DEFAULT_MIN_SIMILARITY
+}
+
+function normalize(vector: number[]): Float32Array {
+  const result = new Float32Array(vector.length)
+  let norm = 0
+  for (const value of vector) {
+    norm += value * value
+  }
+  norm = Math.sqrt(norm) || 1
+  for (let i = 0; i < vector.length; i++) {
+    result[i] = vector[i] / norm
+  }
+  return result
+}
+
+// Copied into its own ArrayBuffer, the type Prisma expects for Bytes fields
+function encodeVector(vector: Float32Array): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength))
+}
+
+function decodeVector(bytes: Uint8Array): Float32Array {
+  // Copy into a fresh buffer so the Float32Array view is always aligned
+  return new Float32Array(Uint8Array.from(bytes).buffer)
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  const length = Math.min(a.length, b.length)
+  let sum = 0
+  for (let i = 0; i < length; i++) {
+    sum += a[i] * b[i]
+  }
+  return sum
+}
+
+// Embed and store the given chunks, linking each chunk to its embedding row
+export async function indexChunks(
+  chunks: { id: string; documentId: string; content: string }[],
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<number> {
+  if (chunks.length === 0) return 0
+
+  const vectors = await embedTexts(provider, chunks.map(chunk => chunk.content))
+
+  for (let i = 0; i < chunks.length; i++) {
+    const vector = normalize(vectors[i])
+    const data = {
+      documentId: chunks[i].documentId,
+      model: provider.model,
+      dimensions: vector.length,
+      vector: encodeVector(vector)
+    }
+
+    const embedding = await db.chunkEmbedding.upsert({
+      where: { chunkId: chunks[i].id },
+      create: { chunkId: chunks[i].id, ...data },
+      update: data
+    })
+
+    await db.documentChunk.update({
+      where: { id: chunks[i].id },
+      data: { embeddingId: embedding.id }
+    })
+  }
+
+  return chunks.length
+}
+
+// Chunks without a vector for the current model
+function missingEmbeddingFilter(model: string) {
+  return {
+    OR: [
+      { embedding: null },
+      { embedding: { model: { not: model } } }
+    ]
+  }
+}
+
+// Embed every chunk of the given documents that has no vector for the current model
+export async function indexMissingChunks(
+  documentIds: string[],
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): Promise<number> {
+  const chunks = await db.documentChunk.findMany({
+    where: { documentId: { in: documentIds }, ...missingEmbeddingFilter(provider.model) },
+    select: { id: true, documentId: true, content: true },
+    orderBy: { chunkIndex: 'asc' }
+  })
+
+  return indexChunks(chunks, provider)
+}
+
+// Documents with at least one chunk missing a vector for the current model
+export async function findDocumentsMissingEmbeddings(): Promise<{ id: string; fileName: string }[]> {
+  return db.document.findMany({
+    where: { chunks: { some: missingEmbeddingFilter(getEmbeddingProvider().model) } },
+    select: { id: true, fileName: true }
+  })
+}
+
+// Cosine-similarity search across the embedded chunks of the selected documents
+export async function searchSimilarChunks(
+  query: string,
+  documentIds: string[],
+  topK: number
+): Promise<VectorMatch[]> {
+  if (documentIds.length === 0) return []
+
+  const provider = getEmbeddingProvider()
+
+  const embeddings = await db.chunkEmbedding.findMany({
+    where: {
+      documentId: { in: documentIds },
+      model: provider.model
+    },
+    select: { chunkId: true, documentId: true, vector: true }
+  })
+
+  if (embeddings.length === 0) return []
+
+  const [queryVector] = await embedTexts(provider, [query])
+  const normalizedQuery = normalize(queryVector)
+  const floor = minSimilarity()
+
+  return embeddings
+    .map(embedding => ({
+      chunkId: embedding.chunkId,
+      documentId: embedding.documentId,
+      score: dot(normalizedQuery, decodeVector(embedding.vector))
+    }))
+    .filter(match => match.score >= floor)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK)
+}